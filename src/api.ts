@@ -0,0 +1,90 @@
+/**
+ * Public API — what `activate()` returns, for other extensions and
+ * scripts that want to deploy or read project state without shelling
+ * out to `bs` themselves.
+ *
+ *   const ext = vscode.extensions.getExtension<BuildAndShipApi>("BuildandShipIT.buildandship");
+ *   const bs = await ext?.activate();
+ *   if (bs?.version === 1) {
+ *     const outcome = await bs.deploy(folderUri);
+ *     if (outcome?.status === "live") { … outcome.url … }
+ *   }
+ *
+ * The object is versioned: `version` only changes when something here
+ * changes incompatibly, so check it before calling anything. Typings are
+ * built with `npm run types` (dist/types/api.d.ts).
+ */
+
+import type * as vscode from "vscode";
+import { getLogs, restartProject, stopProject, type ListProject, type StatusDetail } from "./cli.js";
+import { deploy } from "./deploy.js";
+import { events, type BuildAndShipEvents, type DeployOutcome } from "./events.js";
+import { getProjects, getStatusDetail, invalidate } from "./store.js";
+
+export type { ListProject, StatusDetail, Deploy, DeployPhase } from "./cli.js";
+export type {
+  BuildAndShipEvents,
+  DeployEventBase,
+  DeployStartedEvent,
+  DeployProgressEvent,
+  DeploySucceededEvent,
+  DeployFailedEvent,
+  DeployCancelledEvent,
+  DeployOutcome,
+  ProjectStateEvent,
+} from "./events.js";
+
+/** Current API version */
+export const API_VERSION = 1;
+
+/** Options for an API-started deploy */
+export interface ApiDeployOptions {
+  /** Ship as a separate preview instance under this name instead of replacing the live project */
+  preview?: string;
+}
+
+export interface BuildAndShipApi {
+  /** Only changes on incompatible changes to this interface */
+  readonly version: typeof API_VERSION;
+
+  /** Every project (bs list) — shared with our views, so at most a few seconds old */
+  listProjects(): Promise<ListProject[]>;
+
+  /** One project's status, resources and deploy history (bs status <name>, cached like listProjects) */
+  statusDetail(project: string): Promise<StatusDetail>;
+
+  /**
+   * Deploy a folder through the same pipeline as the Deploy command —
+   * checks, queue, status bar and all — without prompting: failed checks
+   * stop it, warnings don't, and a missing CLI or sign-in isn't offered.
+   * Resolves with how it ended, or undefined if it never started (CLI
+   * missing, signed out, refused).
+   */
+  deploy(folder: vscode.Uri, options?: ApiDeployOptions): Promise<DeployOutcome | undefined>;
+
+  /** Stop a project's container */
+  stop(project: string): Promise<void>;
+
+  /** Restart a project's container */
+  restart(project: string): Promise<void>;
+
+  /** Recent log lines of a project (default 100) */
+  getLogs(project: string, lines?: number): Promise<string>;
+
+  /** Deploy and project state events */
+  readonly events: BuildAndShipEvents;
+}
+
+/** Build the API object returned from activate() */
+export function createApi(): BuildAndShipApi {
+  return Object.freeze({
+    version: API_VERSION,
+    listProjects: () => getProjects(),
+    statusDetail: (project: string) => getStatusDetail(project),
+    deploy: (folder: vscode.Uri, options?: ApiDeployOptions) => deploy(folder, { preview: options?.preview, unattended: true }),
+    stop: (project: string) => stopProject(project).finally(() => invalidate(project)),
+    restart: (project: string) => restartProject(project).finally(() => invalidate(project)),
+    getLogs: (project: string, lines?: number) => getLogs(project, lines),
+    events,
+  });
+}
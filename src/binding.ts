@@ -0,0 +1,198 @@
+/**
+ * Project binding — which deployed project a workspace folder belongs to.
+ *
+ * Resolved per folder, in order:
+ *   1. `.buildandship.json` in the folder ({ "project": "my-app" }),
+ *      written by "Select Project" and safe to commit
+ *   2. the project whose directory (StatusDetail.directory) is the folder
+ *
+ * Folder names are never used — clones and renamed folders bind correctly.
+ *
+ * The same file can also declare monorepo services (see services.ts).
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import type { ListProject, StatusDetail } from "./cli.js";
+import { getProjects, getStatusDetail, onProjectsChange } from "./store.js";
+import { pickFolder, workspaceTargets, type FolderTarget } from "./folders.js";
+
+/** Workspace-local binding file at the folder root */
+export const BINDING_FILE = ".buildandship.json";
+
+/** A deployable service declared in the workspace config */
+export interface ServiceConfig {
+  /** Folder relative to the config file, e.g. "apps/web" */
+  path: string;
+  /** Display / project name — defaults to the folder name */
+  name?: string;
+}
+
+/** Contents of `.buildandship.json` */
+export interface WorkspaceConfig {
+  project?: string;
+  services?: ServiceConfig[];
+}
+
+export interface ProjectBinding {
+  folder: FolderTarget;
+  project: string;
+  source: "file" | "directory";
+}
+
+/** Fired when a binding file is written, edited or removed (by us or by hand) */
+const _onBindingChange = new vscode.EventEmitter<void>();
+export const onBindingChange = _onBindingChange.event;
+
+/** Project directories seen so far (from any StatusDetail fetch) — a project's is dropped when it's invalidated */
+const directoryCache = new Map<string, string>();
+
+/** Watch binding files so every view follows manual edits (call from activate) */
+export function initBindings(context: vscode.ExtensionContext): void {
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${BINDING_FILE}`);
+  context.subscriptions.push(
+    watcher,
+    watcher.onDidCreate(() => _onBindingChange.fire()),
+    watcher.onDidChange(() => _onBindingChange.fire()),
+    watcher.onDidDelete(() => _onBindingChange.fire()),
+    _onBindingChange,
+    // A redeploy or init can move a project — forget where it was. A
+    // global invalidation keeps the rest: re-reading every directory would
+    // cost a `bs status <name>` per project.
+    onProjectsChange((change) => {
+      if (change.reason === "invalidated" && change.project) {
+        directoryCache.delete(change.project);
+      }
+    })
+  );
+}
+
+/** Record project directories from details that were fetched anyway */
+export function rememberDirectories(details: (StatusDetail | null | undefined)[]): void {
+  for (const d of details) {
+    if (d?.directory) { directoryCache.set(d.name, d.directory); }
+  }
+}
+
+function samePath(a: string, b: string): boolean {
+  const rel = path.relative(path.resolve(a), path.resolve(b));
+  return rel === "";
+}
+
+/** Read a folder's `.buildandship.json` (undefined if missing or invalid) */
+export async function readWorkspaceConfig(folder: vscode.Uri): Promise<WorkspaceConfig | undefined> {
+  try {
+    const raw = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(folder, BINDING_FILE));
+    const config = JSON.parse(Buffer.from(raw).toString("utf8"));
+    return config && typeof config === "object" ? config as WorkspaceConfig : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readBindingFile(folder: vscode.Uri): Promise<string | undefined> {
+  const project = (await readWorkspaceConfig(folder))?.project;
+  return typeof project === "string" && project ? project : undefined;
+}
+
+/** Set or clear the project binding, keeping anything else in the file */
+async function writeBindingFile(folder: vscode.Uri, project: string | undefined): Promise<void> {
+  const file = vscode.Uri.joinPath(folder, BINDING_FILE);
+  const config: WorkspaceConfig = { ...(await readWorkspaceConfig(folder)) };
+  if (project) {
+    config.project = project;
+  } else {
+    delete config.project;
+  }
+
+  if (Object.keys(config).length > 0) {
+    const content = JSON.stringify(config, null, 2) + "\n";
+    await vscode.workspace.fs.writeFile(file, Buffer.from(content, "utf8"));
+  } else {
+    await vscode.workspace.fs.delete(file, { useTrash: false });
+  }
+  // The file watcher picks the change up and fires onBindingChange
+}
+
+async function projectDirectories(projects: ListProject[]): Promise<Map<string, string>> {
+  const missing = projects.filter((p) => !directoryCache.has(p.name));
+  if (missing.length > 0) {
+    rememberDirectories(await Promise.all(missing.map((p) => getStatusDetail(p.name).catch(() => null))));
+  }
+  return directoryCache;
+}
+
+async function bindFolder(folder: FolderTarget, projects: ListProject[]): Promise<ProjectBinding | undefined> {
+  const fromFile = await readBindingFile(folder.uri);
+  if (fromFile && projects.some((p) => p.name === fromFile)) {
+    return { folder, project: fromFile, source: "file" };
+  }
+
+  const dirs = await projectDirectories(projects);
+  const match = projects.find((p) => {
+    const dir = dirs.get(p.name);
+    return dir !== undefined && samePath(dir, folder.uri.fsPath);
+  });
+  return match ? { folder, project: match.name, source: "directory" } : undefined;
+}
+
+/** Bindings for every workspace folder that maps to one of `projects` */
+export async function resolveBindings(projects: ListProject[]): Promise<ProjectBinding[]> {
+  const bindings = await Promise.all(workspaceTargets().map((folder) => bindFolder(folder, projects)));
+  return bindings.filter((b): b is ProjectBinding => !!b);
+}
+
+/** Names of the projects bound to this workspace */
+export async function boundProjectNames(projects: ListProject[]): Promise<Set<string>> {
+  return new Set((await resolveBindings(projects)).map((b) => b.project));
+}
+
+/**
+ * Project a folder deploys as — the binding file wins even before the
+ * project exists (first deploy), then a directory match.
+ */
+export async function boundProject(folder: FolderTarget): Promise<string | undefined> {
+  const fromFile = await readBindingFile(folder.uri);
+  if (fromFile) { return fromFile; }
+  const projects = await getProjects().catch(() => [] as ListProject[]);
+  return (await bindFolder(folder, projects))?.project;
+}
+
+/** Bind a workspace folder to a project by hand (writes the binding file) */
+export async function selectProject(folderUri?: vscode.Uri): Promise<void> {
+  const folder = await pickFolder("Bind which folder?", folderUri);
+  if (!folder) { return; }
+
+  const [projects, current] = await Promise.all([
+    getProjects().catch(() => [] as ListProject[]),
+    readBindingFile(folder.uri),
+  ]);
+
+  type Item = vscode.QuickPickItem & { project?: string; unbind?: boolean };
+  const items: Item[] = projects.map((p) => ({
+    label: p.name,
+    description: p.status,
+    detail: p.name === current ? "Currently bound" : undefined,
+    project: p.name,
+  }));
+  if (current) {
+    items.push({ label: "", kind: vscode.QuickPickItemKind.Separator });
+    items.push({ label: "$(close) Remove binding", description: `Stop binding ${folder.name} to ${current}`, unbind: true });
+  }
+
+  const pick = await vscode.window.showQuickPick(items, {
+    placeHolder: `Which project is ${folder.name}?`,
+  });
+  if (!pick) { return; }
+
+  try {
+    await writeBindingFile(folder.uri, pick.unbind ? undefined : pick.project);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't save ${BINDING_FILE}. ${err.message}`);
+    return;
+  }
+  vscode.window.setStatusBarMessage(
+    pick.unbind ? `$(check) ${folder.name} unbound` : `$(check) ${folder.name} → ${pick.project}`,
+    4000
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * CLI capabilities — which `bs` is installed and what it can do, so
+ * features an older CLI lacks are hidden instead of failing.
+ *
+ * Newer CLIs list their capabilities in `bs version --json`; for older
+ * ones they're inferred from the version (INTRODUCED_IN). Each feature
+ * names the capability it needs:
+ *   - context keys `buildandship.cap.<name>` hide its commands and menus
+ *   - hasCapability() hides its webview sections and buttons
+ *   - requireCapability() stops it when run anyway (keybinding, API, …)
+ *
+ * Below MIN_CLI_VERSION we ask to update once per CLI version.
+ */
+
+import * as vscode from "vscode";
+import { getVersion, type CliVersion } from "./cli.js";
+import { invalidate } from "./store.js";
+
+export type Capability = "rollback" | "env" | "domains" | "previews";
+
+/** Oldest CLI the extension supports */
+export const MIN_CLI_VERSION = "0.7.0";
+
+/** First CLI version with each capability — for CLIs that don't list their own */
+const INTRODUCED_IN: Record<Capability, string> = {
+  rollback: "0.7.0",
+  env: "0.7.0",
+  domains: "0.8.0",
+  previews: "0.8.0",
+};
+
+/** What a capability is called in prompts */
+const FEATURE_NAMES: Record<Capability, string> = {
+  rollback: "Rollbacks",
+  env: "Environment variables",
+  domains: "Custom domains",
+  previews: "Branch previews",
+};
+
+let cli: CliVersion | undefined;
+/** Undefined until detected (or when the CLI can't be run) — everything counts as supported */
+let capabilities: Set<Capability> | undefined;
+/** Version we already asked to update from */
+let promptedFor: string | undefined;
+
+/** Compare dotted versions numerically: <0, 0 or >0 */
+export function compareVersions(a: string, b: string): number {
+  const pa = a.split(".").map((n) => parseInt(n, 10) || 0);
+  const pb = b.split(".").map((n) => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const diff = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (diff !== 0) { return diff; }
+  }
+  return 0;
+}
+
+/** The detected CLI version — undefined before detection or without a CLI */
+export function cliVersion(): string | undefined {
+  return cli?.version;
+}
+
+/** Whether the CLI can do it — true while unknown, so nothing hides on a hunch */
+export function hasCapability(capability: Capability): boolean {
+  return capabilities?.has(capability) ?? true;
+}
+
+/**
+ * For commands: true if the CLI can do it, otherwise say what's needed
+ * (with an "Update CLI" button) and return false.
+ */
+export function requireCapability(capability: Capability): boolean {
+  if (hasCapability(capability)) { return true; }
+  vscode.window.showWarningMessage(
+    `Build & Ship: ${FEATURE_NAMES[capability]} need a newer bs CLI (v${INTRODUCED_IN[capability]}+, you have v${cli?.version}).`,
+    "Update CLI"
+  ).then((pick) => {
+    if (pick) { vscode.commands.executeCommand("buildandship.installCli"); }
+  });
+  return false;
+}
+
+/**
+ * Ask the CLI what it is, update the context keys, and prompt to update
+ * when it's older than MIN_CLI_VERSION. Call on activation and whenever
+ * the CLI may have changed (install, cliPath).
+ */
+export async function detectCapabilities(): Promise<void> {
+  try {
+    cli = await getVersion();
+  } catch {
+    // No CLI — the welcome view walks through installing it
+    cli = undefined;
+  }
+
+  const before = describe();
+  const known = cli && cli.version !== "unknown";
+  capabilities = cli?.capabilities
+    ? new Set(allCapabilities().filter((c) => cli!.capabilities!.includes(c)))
+    : known
+      ? new Set(allCapabilities().filter((c) => compareVersions(cli!.version, INTRODUCED_IN[c]) >= 0))
+      : undefined;
+  updateContext();
+  if (describe() !== before) {
+    // Webviews re-render with their sections shown or hidden
+    invalidate();
+  }
+
+  if (known && compareVersions(cli!.version, MIN_CLI_VERSION) < 0 && promptedFor !== cli!.version) {
+    promptedFor = cli!.version;
+    const pick = await vscode.window.showWarningMessage(
+      `Build & Ship: bs v${cli!.version} is older than v${MIN_CLI_VERSION}, the oldest this extension supports. Update it to keep everything working.`,
+      "Update CLI"
+    );
+    if (pick) { vscode.commands.executeCommand("buildandship.installCli"); }
+  }
+}
+
+function describe(): string {
+  return allCapabilities().map((c) => `${c}:${hasCapability(c)}`).join(",");
+}
+
+function allCapabilities(): Capability[] {
+  return Object.keys(INTRODUCED_IN) as Capability[];
+}
+
+function updateContext(): void {
+  for (const capability of allCapabilities()) {
+    vscode.commands.executeCommand("setContext", `buildandship.cap.${capability}`, hasCapability(capability));
+  }
+}
+
+/**
+ * Show everything until detection says otherwise, then detect (call once
+ * from activate). Resolves when the first detection is done.
+ */
+export function initCapabilities(context: vscode.ExtensionContext): Promise<void> {
+  updateContext();
+  const detected = detectCapabilities();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("buildandship.cliPath")) {
+        promptedFor = undefined;
+        void detectCapabilities();
+      }
+    })
+  );
+  return detected;
+}
@@ -0,0 +1,365 @@
+/**
+ * Pre-deploy checks — run before `bs deploy` so broken builds stay local.
+ *
+ * Each check is switched on in settings (`buildandship.preDeploy.*`):
+ *   - uncommitted changes in the folder (warning)
+ *   - npm scripts (`build`, `test`, …) or VS Code tasks (`task:<label>`)
+ *   - Docker daemon reachable
+ *   - the project's local port not taken by something else
+ *
+ * Script and task output goes to the deploy output channel. When anything
+ * warns or fails, a quick report lets the user deploy anyway or stop —
+ * unless `blockOnFailure` is set, in which case failures always stop.
+ */
+
+import { execFile, spawn } from "child_process";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import * as vscode from "vscode";
+import { getStatusDetail } from "./store.js";
+import { uncommittedChanges } from "./git.js";
+
+export type CheckLevel = "pass" | "warn" | "fail" | "skip";
+
+export interface CheckResult {
+  name: string;
+  level: CheckLevel;
+  detail: string;
+}
+
+/** Longest a single script or task may run */
+const SCRIPT_TIMEOUT_MS = 10 * 60 * 1000;
+
+const TASK_PREFIX = "task:";
+
+const LEVEL_ICONS: Record<CheckLevel, string> = {
+  pass: "$(pass)",
+  warn: "$(warning)",
+  fail: "$(error)",
+  skip: "$(circle-slash)",
+};
+
+function getConfig() {
+  return vscode.workspace.getConfiguration("buildandship.preDeploy");
+}
+
+// ── Individual checks ───────────────────────────────────────────────
+
+async function checkGitStatus(cwd: string): Promise<CheckResult> {
+  const name = "Uncommitted changes";
+  const changed = await uncommittedChanges(cwd);
+  if (changed === undefined) { return { name, level: "skip", detail: "Not a git repository" }; }
+  if (changed === 0) { return { name, level: "pass", detail: "Working tree clean" }; }
+  return {
+    name,
+    level: "warn",
+    detail: `${changed} file${changed === 1 ? "" : "s"} not committed — you'd ship code nobody can find in history`,
+  };
+}
+
+/** npm, pnpm or yarn — whichever the folder's lockfile belongs to */
+function packageManager(cwd: string): string {
+  if (fs.existsSync(path.join(cwd, "pnpm-lock.yaml"))) { return "pnpm"; }
+  if (fs.existsSync(path.join(cwd, "yarn.lock"))) { return "yarn"; }
+  return "npm";
+}
+
+function readScripts(cwd: string): Record<string, string> | undefined {
+  try {
+    const pkg = JSON.parse(fs.readFileSync(path.join(cwd, "package.json"), "utf8"));
+    return pkg?.scripts ?? {};
+  } catch {
+    return undefined;
+  }
+}
+
+async function runScript(
+  cwd: string,
+  script: string,
+  output: vscode.OutputChannel,
+  signal: AbortSignal
+): Promise<CheckResult> {
+  const name = `${script} script`;
+  const scripts = readScripts(cwd);
+  if (!scripts) { return { name, level: "skip", detail: "No package.json" }; }
+  if (!scripts[script]) { return { name, level: "skip", detail: `No "${script}" script` }; }
+
+  const pm = packageManager(cwd);
+  output.appendLine(`$ ${pm} run ${script}`);
+
+  return new Promise((resolve) => {
+    const proc = spawn(pm, ["run", script], {
+      cwd,
+      shell: process.platform === "win32",
+      env: { ...process.env, FORCE_COLOR: "0", CI: "1" },
+      signal,
+      timeout: SCRIPT_TIMEOUT_MS,
+    });
+    proc.stdout.on("data", (chunk) => output.append(chunk.toString()));
+    proc.stderr.on("data", (chunk) => output.append(chunk.toString()));
+    proc.on("error", (err) => {
+      resolve({ name, level: "fail", detail: signal.aborted ? "Cancelled" : err.message });
+    });
+    proc.on("close", (code) => {
+      resolve(code === 0
+        ? { name, level: "pass", detail: `${pm} run ${script} passed` }
+        : { name, level: "fail", detail: signal.aborted ? "Cancelled" : `${pm} run ${script} exited with code ${code}` });
+    });
+  });
+}
+
+async function runTask(
+  folder: vscode.Uri,
+  label: string,
+  output: vscode.OutputChannel,
+  signal: AbortSignal
+): Promise<CheckResult> {
+  const name = `${label} task`;
+  const tasks = await vscode.tasks.fetchTasks();
+  const task = tasks.find((t) =>
+    t.name === label && (typeof t.scope !== "object" || t.scope.uri.toString() === vscode.workspace.getWorkspaceFolder(folder)?.uri.toString())
+  ) ?? tasks.find((t) => t.name === label);
+  if (!task) { return { name, level: "skip", detail: `No task named "${label}"` }; }
+
+  output.appendLine(`▶ Task: ${label} (output in the terminal panel)`);
+
+  // Listen before starting — a quick task can end before executeTask resolves,
+  // so ends are kept until we know which execution is ours
+  const ended: vscode.TaskProcessEndEvent[] = [];
+  let onEnd = (e: vscode.TaskProcessEndEvent) => { ended.push(e); };
+  const listener = vscode.tasks.onDidEndTaskProcess((e) => onEnd(e));
+
+  let execution: vscode.TaskExecution;
+  try {
+    execution = await vscode.tasks.executeTask(task);
+  } catch (err: any) {
+    listener.dispose();
+    return { name, level: "fail", detail: `Couldn't start the task: ${err.message}` };
+  }
+
+  return new Promise((resolve) => {
+    const finish = (result: CheckResult) => {
+      listener.dispose();
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+    onEnd = (e) => {
+      if (e.execution !== execution) { return; }
+      finish(e.exitCode === 0
+        ? { name, level: "pass", detail: "Task passed" }
+        : { name, level: "fail", detail: `Task exited with code ${e.exitCode ?? "unknown"}` });
+    };
+    const onAbort = () => {
+      execution.terminate();
+      finish({ name, level: "fail", detail: "Cancelled" });
+    };
+    const timer = setTimeout(() => {
+      execution.terminate();
+      finish({ name, level: "fail", detail: "Timed out" });
+    }, SCRIPT_TIMEOUT_MS);
+    signal.addEventListener("abort", onAbort);
+    ended.forEach((e) => onEnd(e));
+  });
+}
+
+function checkDocker(): Promise<CheckResult> {
+  const name = "Docker";
+  return new Promise((resolve) => {
+    execFile("docker", ["info", "--format", "{{.ServerVersion}}"], { timeout: 10000 }, (error, stdout, stderr) => {
+      if (!error) {
+        resolve({ name, level: "pass", detail: `Daemon running (${stdout.trim() || "unknown version"})` });
+      } else if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        resolve({ name, level: "fail", detail: "Docker isn't installed — the build needs it" });
+      } else {
+        resolve({ name, level: "fail", detail: `Daemon not reachable — is Docker running? ${stderr?.trim().split("\n")[0] ?? ""}`.trim() });
+      }
+    });
+  });
+}
+
+/** True once `docker info` gets an answer from the daemon */
+function dockerAnswers(): Promise<boolean> {
+  return new Promise((resolve) => {
+    execFile("docker", ["info", "--format", "{{.ServerVersion}}"], { timeout: 10000 }, (error) => resolve(!error));
+  });
+}
+
+/** Ask the OS to start Docker — Docker Desktop where there is one, the service on Linux */
+function launchDocker(): void {
+  const detached = { detached: true, stdio: "ignore" as const };
+  if (process.platform === "darwin") {
+    spawn("open", ["-a", "Docker"], detached).on("error", () => undefined).unref();
+  } else if (process.platform === "win32") {
+    const exe = path.join(process.env.ProgramFiles ?? "C:\\Program Files", "Docker", "Docker", "Docker Desktop.exe");
+    spawn(exe, [], detached).on("error", () => undefined).unref();
+  } else {
+    // Docker Desktop for Linux runs as a user service; plain Docker needs root
+    execFile("systemctl", ["--user", "start", "docker-desktop"], (error) => {
+      if (!error) { return; }
+      const terminal = vscode.window.createTerminal({ name: "Build & Ship: Docker", iconPath: new vscode.ThemeIcon("server-process") });
+      terminal.show();
+      terminal.sendText("sudo systemctl start docker");
+    });
+  }
+}
+
+/** Start Docker and wait (up to 90s) for the daemon. Resolves true once it answers. */
+export async function startDocker(): Promise<boolean> {
+  if (await dockerAnswers()) {
+    vscode.window.setStatusBarMessage("$(check) Docker is already running", 4000);
+    return true;
+  }
+
+  launchDocker();
+  const up = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Starting Docker" },
+    async () => {
+      const deadline = Date.now() + 90000;
+      while (Date.now() < deadline) {
+        await new Promise((r) => setTimeout(r, 2000));
+        if (await dockerAnswers()) { return true; }
+      }
+      return false;
+    }
+  );
+
+  if (up) {
+    vscode.window.setStatusBarMessage("$(check) Docker is up", 4000);
+  } else {
+    vscode.window.showErrorMessage("Build & Ship: Docker didn't start within 90 seconds. Start it by hand and try again.");
+  }
+  return up;
+}
+
+/** True if something already listens on the port */
+function portInUse(port: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const server = net.createServer();
+    server.once("error", (err: NodeJS.ErrnoException) => resolve(err.code === "EADDRINUSE"));
+    server.once("listening", () => server.close(() => resolve(false)));
+    server.listen(port, "127.0.0.1");
+  });
+}
+
+async function checkPort(projectName: string): Promise<CheckResult> {
+  const name = "Port";
+  const detail = await getStatusDetail(projectName).catch(() => undefined);
+  const port = Number(detail?.local_url?.match(/:(\d+)/)?.[1]);
+  if (!detail || !port) { return { name, level: "skip", detail: "No local port known yet" }; }
+  // A running project holds its own port — the deploy replaces it
+  if (detail.status === "live") { return { name, level: "pass", detail: `${port} is ${projectName}'s own` }; }
+
+  return await portInUse(port)
+    ? { name, level: "fail", detail: `Port ${port} is taken by another process — the container won't be able to bind it` }
+    : { name, level: "pass", detail: `Port ${port} is free` };
+}
+
+// ── Pipeline ────────────────────────────────────────────────────────
+
+/**
+ * Run every enabled check in order. Scripts stop early once one fails.
+ * Unattended runs (watch mode) skip the uncommitted-changes check — a
+ * dirty tree is the whole point there.
+ */
+export async function runChecks(
+  folder: vscode.Uri,
+  projectName: string,
+  output: vscode.OutputChannel,
+  signal: AbortSignal,
+  unattended = false
+): Promise<CheckResult[]> {
+  const config = getConfig();
+  const cwd = folder.fsPath;
+  const results: CheckResult[] = [];
+
+  if (!unattended && config.get<boolean>("gitStatus", true)) {
+    results.push(await checkGitStatus(cwd));
+  }
+
+  // Environment checks are independent — run them side by side
+  const environment: Promise<CheckResult>[] = [];
+  if (config.get<boolean>("docker", true)) { environment.push(checkDocker()); }
+  if (config.get<boolean>("ports", true)) { environment.push(checkPort(projectName)); }
+  results.push(...await Promise.all(environment));
+
+  for (const entry of config.get<string[]>("scripts", [])) {
+    if (signal.aborted) { break; }
+    const result = entry.startsWith(TASK_PREFIX)
+      ? await runTask(folder, entry.slice(TASK_PREFIX.length).trim(), output, signal)
+      : await runScript(cwd, entry, output, signal);
+    results.push(result);
+    if (result.level === "fail") { break; }
+  }
+
+  for (const r of results) {
+    output.appendLine(`${r.level === "pass" ? "✓" : r.level === "fail" ? "✗" : r.level === "warn" ? "!" : "–"} ${r.name}: ${r.detail}`);
+  }
+  return results;
+}
+
+/** True if pre-deploy checks are switched on */
+export function checksEnabled(): boolean {
+  return getConfig().get<boolean>("enabled", true);
+}
+
+/**
+ * Decide whether to go ahead. Clean results pass silently; otherwise the
+ * report lists every result with Deploy Anyway / Cancel (no Deploy Anyway
+ * for failures when `blockOnFailure` is set). Unattended runs never ask:
+ * warnings go ahead, failures stop. Resolves true to deploy.
+ */
+export async function confirmChecks(results: CheckResult[], unattended = false): Promise<boolean> {
+  const failed = results.filter((r) => r.level === "fail");
+  const warned = results.filter((r) => r.level === "warn");
+  if (unattended) {
+    if (failed.length > 0) {
+      vscode.window.setStatusBarMessage(`$(error) Pre-deploy checks failed: ${failed.map((r) => r.name).join(", ")}`, 8000);
+    }
+    return failed.length === 0;
+  }
+  if (failed.length === 0 && warned.length === 0) {
+    if (results.some((r) => r.level === "pass")) {
+      vscode.window.setStatusBarMessage("$(pass) Pre-deploy checks passed", 3000);
+    }
+    return true;
+  }
+
+  const blocked = failed.length > 0 && getConfig().get<boolean>("blockOnFailure", false);
+
+  type Item = vscode.QuickPickItem & { action?: "deploy" | "cancel" | "output" | "docker" };
+  const items: Item[] = [];
+  if (failed.some((r) => r.name === "Docker")) {
+    items.push({ label: "$(play) Start Docker and Deploy", action: "docker" });
+  }
+  if (!blocked) {
+    items.push({ label: "$(rocket) Deploy Anyway", action: "deploy" });
+  }
+  items.push(
+    { label: "$(close) Cancel Deploy", action: "cancel" },
+    { label: "$(output) Show Check Output", action: "output" },
+    { label: "Results", kind: vscode.QuickPickItemKind.Separator },
+    ...results.map((r) => ({ label: `${LEVEL_ICONS[r.level]} ${r.name}`, description: r.detail }))
+  );
+
+  const summary = [
+    failed.length ? `${failed.length} failed` : "",
+    warned.length ? `${warned.length} warning${warned.length === 1 ? "" : "s"}` : "",
+  ].filter(Boolean).join(", ");
+
+  const pick = await vscode.window.showQuickPick(items, {
+    title: `Pre-deploy checks: ${summary}`,
+    placeHolder: blocked ? "Fix the failures to deploy (buildandship.preDeploy.blockOnFailure is on)" : "Ship it anyway?",
+    ignoreFocusOut: true,
+  });
+
+  if (pick?.action === "output") {
+    vscode.commands.executeCommand("buildandship.showDeployOutput");
+  }
+  if (pick?.action === "docker") {
+    // Only Docker failing means it's the one thing in the way
+    return await startDocker() && failed.length === 1;
+  }
+  return pick?.action === "deploy";
+}
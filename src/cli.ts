@@ -2,10 +2,16 @@
  * CLI bridge — talks to the `bs` binary and returns typed data.
  * All extension data flows through here. No SQLite dependency,
  * no fragile text parsing. Just clean JSON from `bs --json`.
+ *
+ * List, status, logs and deploy go over the `bs serve` daemon when it's
+ * enabled and running (see rpc.ts); everything else spawns `bs`.
  */
 
-import { execFile } from "child_process";
+import { execFile, spawn } from "child_process";
+import { createInterface } from "readline";
 import { workspace } from "vscode";
+import { BsCliError, CliParseError, NotAuthenticatedError, TokenExpiredError, toCliError } from "./errors.js";
+import { deployViaDaemon, viaDaemon } from "./rpc.js";
 
 // ── Types matching bs CLI --json output ─────────────────────────────
 
@@ -18,6 +24,10 @@ export interface ListProject {
     repo: string;
     branch: string;
   };
+  /** Parent project — set on preview instances only */
+  preview_of?: string;
+  /** Git branch a preview was deployed from */
+  branch?: string;
 }
 
 export interface StatusAll {
@@ -40,6 +50,8 @@ export interface StatusDetail {
   directory: string;
   framework?: string;
   status: string;
+  /** Working directory inside the container, e.g. "/app" */
+  workdir?: string;
   container_id?: string;
   container_name?: string;
   uptime?: string;
@@ -65,6 +77,85 @@ export interface Deploy {
   created_at: string;
 }
 
+/** Deploy phases reported by `bs deploy --json`, in order */
+export type DeployPhase = "detect" | "build" | "push" | "start" | "tunnel";
+
+export const DEPLOY_PHASES: DeployPhase[] = ["detect", "build", "push", "start", "tunnel"];
+
+/** One line of `bs deploy --json` output (line-delimited JSON) */
+export interface DeployEvent {
+  type: "phase" | "log" | "error" | "result";
+  phase?: DeployPhase;
+  message?: string;
+  project?: string;
+  status?: string;
+  url?: string;
+  deploy_id?: string;
+}
+
+/** Outcome of a `bs deploy` process, derived from its exit code and events */
+export interface DeployResult {
+  success: boolean;
+  /** True when the process was stopped through DeployProcess.cancel() */
+  cancelled: boolean;
+  exitCode: number | null;
+  project?: string;
+  url?: string;
+  deployId?: string;
+  error?: string;
+}
+
+/** Handle to a running `bs deploy` child process */
+export interface DeployProcess {
+  /** Resolves once the process has exited — never rejects */
+  done: Promise<DeployResult>;
+  /** Ask the CLI to stop (SIGTERM), escalating to SIGKILL after 5s */
+  cancel(): void;
+}
+
+/** Handle to a running `bs logs --follow` child process */
+export interface LogStream {
+  /** Kill the follower — safe to call more than once */
+  stop(): void;
+}
+
+/** A DNS record the user must create for a custom domain */
+export interface DnsRecord {
+  type: string;
+  name: string;
+  value: string;
+}
+
+/** Verification + certificate state of one custom domain */
+export interface DomainStatus {
+  domain: string;
+  /** DNS points at the project */
+  verified: boolean;
+  /** Certificate state: "pending" | "active" | "error" */
+  tls: string;
+  /** Records still needed (present until verified) */
+  records?: DnsRecord[];
+  /** CLI-verified that the domain serves this project (newer CLIs) */
+  serving?: boolean;
+  error?: string;
+}
+
+/** One environment variable of a deployed project */
+export interface EnvVar {
+  key: string;
+  value: string;
+  /** Set by the CLI for values stored as secrets */
+  secret?: boolean;
+}
+
+/** `bs version --json` */
+export interface CliVersion {
+  /** "0.7.0" (no leading v) — "unknown" when it couldn't be read */
+  version: string;
+  /** Features the CLI says it has — undefined for CLIs too old to say */
+  capabilities?: string[];
+}
+
 export interface WhoAmI {
   name: string;
   email: string;
@@ -80,22 +171,27 @@ function getCliPath(): string {
   return workspace.getConfiguration("buildandship").get<string>("cliPath", "bs");
 }
 
-function exec(args: string[], timeoutMs = 15000): Promise<string> {
+/** Run the CLI and resolve with stdout; `input` is written to its stdin */
+function exec(args: string[], timeoutMs = 15000, input?: string): Promise<string> {
   return new Promise((resolve, reject) => {
     const cli = getCliPath();
-    const proc = execFile(cli, args, {
+    const child = execFile(cli, args, {
       timeout: timeoutMs,
       maxBuffer: 1024 * 1024, // 1MB
       env: { ...process.env, NO_COLOR: "1" },
     }, (error, stdout, stderr) => {
       if (error) {
-        // Include stderr in error message for debugging
-        const msg = stderr?.trim() || error.message;
-        reject(new Error(`bs ${args.join(" ")}: ${msg}`));
+        // Typed by what went wrong, with stderr kept for debugging
+        reject(toCliError(cli, args, error, stderr ?? "", timeoutMs));
         return;
       }
       resolve(stdout);
     });
+    if (input !== undefined) {
+      // A CLI that exits early closes stdin — the exit callback reports why
+      child.stdin?.on("error", () => undefined);
+      child.stdin?.end(input);
+    }
   });
 }
 
@@ -105,14 +201,13 @@ function exec(args: string[], timeoutMs = 15000): Promise<string> {
 function execAll(args: string[], timeoutMs = 15000): Promise<string> {
   return new Promise((resolve, reject) => {
     const cli = getCliPath();
-    const proc = execFile(cli, args, {
+    execFile(cli, args, {
       timeout: timeoutMs,
       maxBuffer: 1024 * 1024,
       env: { ...process.env, NO_COLOR: "1" },
     }, (error, stdout, stderr) => {
       if (error) {
-        const msg = stderr?.trim() || error.message;
-        reject(new Error(`bs ${args.join(" ")}: ${msg}`));
+        reject(toCliError(cli, args, error, stderr ?? "", timeoutMs));
         return;
       }
       resolve((stdout || "") + (stderr || ""));
@@ -121,11 +216,16 @@ function execAll(args: string[], timeoutMs = 15000): Promise<string> {
 }
 
 function execJSON<T>(args: string[]): Promise<T> {
-  return exec([...args, "--json"]).then((out) => {
+  const jsonArgs = [...args, "--json"];
+  return exec(jsonArgs).then((out) => {
     try {
       return JSON.parse(out) as T;
     } catch {
-      throw new Error(`Failed to parse JSON from: bs ${args.join(" ")} --json`);
+      throw new CliParseError(
+        `Failed to parse JSON from: bs ${jsonArgs.join(" ")}`,
+        { command: `${getCliPath()} ${jsonArgs.join(" ")}`, exitCode: 0, stderr: "" },
+        out.slice(0, 2000)
+      );
     }
   });
 }
@@ -134,31 +234,44 @@ function execJSON<T>(args: string[]): Promise<T> {
 
 /** List all projects (bs list --json) */
 export function listProjects(): Promise<ListProject[]> {
-  return execJSON<ListProject[]>(["list"]);
+  return viaDaemon("list", {}, () => execJSON<ListProject[]>(["list"]));
 }
 
 /** Status of all projects (bs status --json) */
 export function statusAll(): Promise<StatusAll> {
-  return execJSON<StatusAll>(["status"]);
+  return viaDaemon("status", {}, () => execJSON<StatusAll>(["status"]));
 }
 
 /** Detailed status for one project (bs status <name> --json) */
 export function statusDetail(project: string): Promise<StatusDetail> {
-  return execJSON<StatusDetail>(["status", project]);
+  return viaDaemon("status", { project }, () => execJSON<StatusDetail>(["status", project]));
 }
 
-/** Check if user is logged in by running bs whoami.
+/** Whether the CLI has a signed-in user. Rejects with a BsCliError when
+ *  whoami fails for any other reason (not installed, timeout, …).
  *  NOTE: `bs whoami` writes all output to stderr via the log package,
  *  so we must use execAll() to capture both stdout + stderr. */
+export async function authStatus(): Promise<"signedIn" | "signedOut" | "expired"> {
+  let out: string;
+  try {
+    out = await execAll(["whoami"]);
+  } catch (err) {
+    if (err instanceof TokenExpiredError) { return "expired"; }
+    if (err instanceof NotAuthenticatedError) { return "signedOut"; }
+    throw err;
+  }
+  // Not logged in → output contains "Not logged in"
+  if (out.includes("Not logged in")) {
+    return "signedOut";
+  }
+  // Logged in → output contains user info fields
+  return out.includes("Email") || out.includes("Name") || out.includes("User ID") ? "signedIn" : "signedOut";
+}
+
+/** Check if user is logged in — false on any failure (see authStatus for why) */
 export async function isLoggedIn(): Promise<boolean> {
   try {
-    const out = await execAll(["whoami"]);
-    // Not logged in → output contains "Not logged in"
-    if (out.includes("Not logged in")) {
-      return false;
-    }
-    // Logged in → output contains user info fields
-    return out.includes("Email") || out.includes("Name") || out.includes("User ID");
+    return await authStatus() === "signedIn";
   } catch {
     return false;
   }
@@ -174,20 +287,243 @@ export async function isCliInstalled(): Promise<boolean> {
   }
 }
 
-/** Get CLI version string */
-export async function getVersion(): Promise<string> {
-  const out = await exec(["version"], 5000);
-  // Output is like "Build & Ship v0.7.0 (darwin/arm64)"
-  const match = out.match(/v[\d.]+/);
-  return match ? match[0] : "unknown";
+/** CLI version and the capabilities it reports (bs version --json).
+ *  CLIs from before --json print "Build & Ship v0.7.0 (darwin/arm64)" —
+ *  or reject the flag — and come back without capabilities. */
+export async function getVersion(): Promise<CliVersion> {
+  const out = await exec(["version", "--json"], 5000).catch(() => exec(["version"], 5000));
+  try {
+    const parsed = JSON.parse(out) as { version?: unknown; capabilities?: unknown };
+    if (typeof parsed.version === "string") {
+      return {
+        version: parsed.version.replace(/^v/, ""),
+        capabilities: Array.isArray(parsed.capabilities) ? parsed.capabilities.filter((c) => typeof c === "string") : undefined,
+      };
+    }
+  } catch {
+    // Plain text — an older CLI
+  }
+  const match = out.match(/v?(\d+\.\d+\.\d+)/);
+  return { version: match ? match[1] : "unknown" };
 }
 
-/** Fetch recent logs for a project (bs logs <name> --lines N --follow=false) */
-export async function getLogs(project: string, lines = 100): Promise<string> {
+/** Roll a project back to a previous deploy (bs rollback <name> <deploy-id>) */
+export async function rollback(project: string, deployId: string): Promise<void> {
+  // Rollback re-starts an existing image, so it's much faster than a deploy
+  await exec(["rollback", project, deployId], 5 * 60 * 1000);
+}
+
+/** Swap a preview's build into its parent project (bs promote <preview>) */
+export async function promotePreview(preview: string): Promise<void> {
+  await exec(["promote", preview], 5 * 60 * 1000);
+}
+
+/** Stop a project's container (bs stop <name>) */
+export async function stopProject(project: string): Promise<void> {
+  await exec(["stop", project], 2 * 60 * 1000);
+}
+
+/** Restart a project's container (bs restart <name>) */
+export async function restartProject(project: string): Promise<void> {
+  await exec(["restart", project], 2 * 60 * 1000);
+}
+
+/** Destroy a project without prompting (bs destroy <name> --force) */
+export async function destroyProject(project: string): Promise<void> {
+  await exec(["destroy", project, "--force"], 2 * 60 * 1000);
+}
+
+/** Environment variables of a project (bs env list <name> --json) */
+export function listEnv(project: string): Promise<EnvVar[]> {
+  return execJSON<EnvVar[]>(["env", "list", project]);
+}
+
+/** Mask values in an error, keeping its type — stderr may echo them, so it's dropped */
+export function redact<E extends Error>(err: E, values: string[]): E {
+  const mask = (text: string) => values.reduce((masked, value) => value ? masked.split(value).join("••••") : masked, text);
+  err.message = mask(err.message);
+  if (err.stack) { err.stack = mask(err.stack); }
+  if (err instanceof BsCliError) { Object.assign(err, { stderr: "" }); }
+  return err;
+}
+
+/** Set one or more variables (bs env set <name> --stdin, given a JSON object).
+ *  Values go over stdin — on argv any local user could read them (ps). */
+export async function setEnv(project: string, vars: Record<string, string>): Promise<void> {
   try {
-    const out = await exec(["logs", project, "--lines", String(lines), "--follow=false"], 10000);
-    return out;
+    await exec(["env", "set", project, "--stdin"], 30000, JSON.stringify(vars));
   } catch (err: any) {
-    return err.message || "Failed to fetch logs";
+    throw redact(err, Object.values(vars));
   }
 }
+
+/** Remove variables (bs env unset <name> KEY ...) */
+export async function unsetEnv(project: string, keys: string[]): Promise<void> {
+  await exec(["env", "unset", project, ...keys], 30000);
+}
+
+/** Custom domains of a project (bs domains list <name> --json) */
+export function listDomains(project: string): Promise<DomainStatus[]> {
+  return execJSON<DomainStatus[]>(["domains", "list", project]);
+}
+
+/** Attach a domain; returns the DNS records to create (bs domains add <name> <domain>) */
+export function addDomain(project: string, domain: string): Promise<DomainStatus> {
+  return execJSON<DomainStatus>(["domains", "add", project, domain]);
+}
+
+/** Detach a domain (bs domains remove <name> <domain>) */
+export async function removeDomain(project: string, domain: string): Promise<void> {
+  await exec(["domains", "remove", project, domain], 30000);
+}
+
+/** Re-run DNS + certificate checks for one domain (bs domains check <name> <domain>) */
+export function checkDomain(project: string, domain: string): Promise<DomainStatus> {
+  return execJSON<DomainStatus>(["domains", "check", project, domain]);
+}
+
+/** Fetch recent logs for a project (bs logs <name> --lines N --follow=false) */
+export function getLogs(project: string, lines = 100): Promise<string> {
+  return viaDaemon(
+    "logs",
+    { project, lines },
+    () => exec(["logs", project, "--lines", String(lines), "--follow=false"], 10000),
+    10000
+  );
+}
+
+/** Run `bs deploy --json` in `cwd` as a child process.
+ *  Each stdout line is parsed as a DeployEvent; anything that isn't JSON
+ *  (older CLIs, stderr chatter) is forwarded as a plain log event.
+ *  With `preview`, the CLI deploys a separate instance under that name
+ *  instead of replacing the live project. A connected daemon runs it
+ *  instead, with the same events and result. */
+export function runDeploy(cwd: string, onEvent: (event: DeployEvent) => void, preview?: string): DeployProcess {
+  const served = deployViaDaemon(cwd, onEvent, preview);
+  if (served) { return served; }
+
+  const args = ["deploy", "--json", ...(preview ? ["--preview", preview] : [])];
+  const proc = spawn(getCliPath(), args, {
+    cwd,
+    env: { ...process.env, NO_COLOR: "1" },
+  });
+
+  let project: string | undefined;
+  let url: string | undefined;
+  let deployId: string | undefined;
+  let status: string | undefined;
+  let error: string | undefined;
+  let cancelled = false;
+  const stderrTail: string[] = [];
+
+  const emit = (event: DeployEvent) => {
+    if (event.project) { project = event.project; }
+    if (event.url) { url = event.url; }
+    if (event.deploy_id) { deployId = event.deploy_id; }
+    if (event.type === "result" && event.status) { status = event.status; }
+    if (event.type === "error" && event.message) { error = event.message; }
+    onEvent(event);
+  };
+
+  createInterface({ input: proc.stdout }).on("line", (line) => {
+    if (!line.trim()) { return; }
+    try {
+      emit(JSON.parse(line) as DeployEvent);
+    } catch {
+      emit({ type: "log", message: line });
+    }
+  });
+
+  createInterface({ input: proc.stderr }).on("line", (line) => {
+    if (!line.trim()) { return; }
+    stderrTail.push(line);
+    if (stderrTail.length > 20) { stderrTail.shift(); }
+    emit({ type: "log", message: line });
+  });
+
+  const done = new Promise<DeployResult>((resolve) => {
+    let settled = false;
+    const settle = (result: DeployResult) => {
+      if (!settled) {
+        settled = true;
+        resolve(result);
+      }
+    };
+
+    proc.on("error", (err) => {
+      // Spawn failure (ENOENT etc.) — the process never ran
+      settle({ success: false, cancelled, exitCode: null, error: err.message });
+    });
+
+    proc.on("close", (code) => {
+      const success = !cancelled && code === 0 && status !== "failed";
+      settle({
+        success,
+        cancelled,
+        exitCode: code,
+        project,
+        url,
+        deployId,
+        error: success || cancelled ? undefined : error || stderrTail.join("\n") || `bs deploy exited with code ${code}`,
+      });
+    });
+  });
+
+  const cancel = () => {
+    if (cancelled || proc.exitCode !== null || proc.signalCode !== null) { return; }
+    cancelled = true;
+    // SIGTERM lets the CLI tear down half-built containers; force it if it hangs
+    proc.kill("SIGTERM");
+    const forceKill = setTimeout(() => {
+      if (proc.exitCode === null && proc.signalCode === null) {
+        proc.kill("SIGKILL");
+      }
+    }, 5000);
+    proc.once("close", () => clearTimeout(forceKill));
+  };
+
+  return { done, cancel };
+}
+
+/** Stream logs for a project (bs logs <name> --lines N --follow).
+ *  Calls onLine for every line of output and onExit once the process
+ *  ends — either because stop() was called or the CLI gave up. */
+export function followLogs(
+  project: string,
+  lines: number,
+  onLine: (line: string) => void,
+  onExit: (error?: string) => void
+): LogStream {
+  const proc = spawn(getCliPath(), ["logs", project, "--lines", String(lines), "--follow"], {
+    env: { ...process.env, NO_COLOR: "1" },
+  });
+
+  let stopped = false;
+  const stderrTail: string[] = [];
+
+  createInterface({ input: proc.stdout }).on("line", onLine);
+  createInterface({ input: proc.stderr }).on("line", (line) => {
+    stderrTail.push(line);
+    if (stderrTail.length > 5) { stderrTail.shift(); }
+    onLine(line);
+  });
+
+  let exited = false;
+  const exit = (error?: string) => {
+    if (!exited) {
+      exited = true;
+      onExit(stopped ? undefined : error);
+    }
+  };
+
+  proc.on("error", (err) => exit(err.message));
+  proc.on("close", (code) => exit(code ? stderrTail.join("\n") || `bs logs exited with code ${code}` : undefined));
+
+  return {
+    stop() {
+      if (stopped) { return; }
+      stopped = true;
+      proc.kill();
+    },
+  };
+}
@@ -1,5 +1,5 @@
 /**
- * Deploy command — runs `bs deploy` in an integrated terminal
+ * Deploy command — runs `bs deploy --json` as a managed child process
  * with non-invasive status bar progress tracking.
  *
  * UX philosophy: No popups. No modal dialogs. No notification toasts.
@@ -7,238 +7,923 @@
  * The status bar item auto-clears on success/failure.
  * On success → confetti celebration with public URL + QR code!
  *
- * Deploy watcher: Polls every 1s comparing against a pre-deploy snapshot.
- * Detects success (new live project), failure, and re-deploys instantly —
- * no need for the user to close the terminal.
+ * The CLI streams line-delimited JSON events (detect → build → push →
+ * start → tunnel). The status bar and webviews show the real phase, raw
+ * output goes to the "Build & Ship: Deploy" output channel, and the
+ * process exit code decides success or failure.
+ *
+ * Cancel: clicking the spinning status bar item (or the Cancel button in
+ * either webview) terminates the CLI process — no terminal to hunt down.
+ *
+ * Before the CLI starts, configurable pre-deploy checks run (see
+ * checks.ts); a failing or warning check asks before going ahead.
+ *
+ * Failures are also matched against known compiler/build/runtime error
+ * formats and surfaced in the Problems panel (see diagnostics.ts).
+ *
+ * Monorepo services deploy as a group: checks for every folder first,
+ * then one `bs deploy` per folder in parallel (through the same queue),
+ * sharing the status bar item (hover for per-service phases) and the
+ * output channel (lines prefixed with the project name).
+ *
+ * Several projects can deploy at once (up to `buildandship.deploy.maxConcurrent`,
+ * the rest wait in a queue). A project is never deployed twice side by
+ * side: a second request waits for the first to finish, or is refused
+ * (`buildandship.deploy.whenBusy`). Every deploy in flight is listed in
+ * the "Deploys" view (see deploysView.ts).
  */
 
+import * as path from "path";
 import * as vscode from "vscode";
-import { isCliInstalled, isLoggedIn, statusAll, listProjects } from "./cli.js";
+import { destroyProject, isCliInstalled, isLoggedIn, restartProject, runDeploy, rollback as cliRollback, stopProject, type Deploy, type DeployEvent, type DeployPhase, type DeployProcess, type DeployResult } from "./cli.js";
+import { formatRelativeTime, shortSha } from "./format.js";
+import { clearDeployProblems, reportDeployProblems } from "./diagnostics.js";
+import { pickFolder, type FolderTarget } from "./folders.js";
+import { boundProject } from "./binding.js";
+import { checksEnabled, confirmChecks, runChecks, type CheckResult } from "./checks.js";
+import { emit, type DeployEventBase, type DeployOutcome } from "./events.js";
+import { getProjects, getStatusDetail, invalidate } from "./store.js";
+
+export interface DeployOptions {
+  /** Ship as a separate preview instance under this name (see previews.ts) */
+  preview?: string;
+  /** Started by watch mode or the API — nothing prompts: checks don't ask
+   *  (see checks.ts), install and sign-in aren't offered */
+  unattended?: boolean;
+}
+
+/** One service's share of a group deploy */
+export interface ServiceDeploy {
+  target: FolderTarget;
+  project: string;
+  phase?: DeployPhase;
+  /** Set once its process has exited */
+  result?: DeployResult;
+}
 
-let activeDeployTerminal: vscode.Terminal | undefined;
+/** A deploy in flight or waiting its turn, as the Deploys view shows it */
+export interface TrackedDeploy {
+  /** Project the folder deploys as — at most one deploy per key runs at a time */
+  key: string;
+  /** Display name (the CLI may rename it once it starts) */
+  project: string;
+  folder: FolderTarget;
+  state: "queued" | "checks" | "deploying";
+  phase?: DeployPhase;
+  /** What it's doing, in words ("Running checks", "Building image", …) */
+  label: string;
+  /** When it started running (or was queued) */
+  since: number;
+  /** Part of a group deploy (see deployGroup) */
+  grouped: boolean;
+}
+
+/** Bookkeeping behind a tracked deploy */
+interface DeployRun {
+  info: TrackedDeploy;
+  options: DeployOptions;
+  proc?: DeployProcess;
+  /** Aborts pre-deploy checks that are still running */
+  checks?: AbortController;
+  /** Every service of the group this run belongs to */
+  group?: ServiceDeploy[];
+  /** This run's own entry in `group` */
+  service?: ServiceDeploy;
+  /** Pre-deploy checks already ran (for the whole group, see checkGroup) */
+  checked?: boolean;
+  /** Callers waiting on a queued deploy — resolved once it has run (or was dropped) */
+  waiters: ((outcome: DeployOutcome | undefined) => void)[];
+}
+
+/** Running deploys by key */
+const running = new Map<string, DeployRun>();
+/** Deploys waiting for their project or a free slot, oldest first */
+let queue: DeployRun[] = [];
+/** Resolved the next time nothing (or the given project) is deploying — see whenIdle */
+let idleWaiters: { project?: string; resolve: () => void }[] = [];
 let deployStatusItem: vscode.StatusBarItem | undefined;
-let deployWatcherInterval: ReturnType<typeof setInterval> | undefined;
+let deployStatusTimer: ReturnType<typeof setTimeout> | undefined;
+let outputChannel: vscode.OutputChannel | undefined;
+
+/** Output lines kept per deploy for problem matching */
+const TRANSCRIPT_LIMIT = 5000;
+
+/** Human-readable labels for each deploy phase */
+const PHASE_LABELS: Record<DeployPhase, string> = {
+  detect: "Detecting framework",
+  build: "Building image",
+  push: "Pushing image",
+  start: "Starting container",
+  tunnel: "Opening tunnel",
+};
+
+/** Fired whenever a deploy starts, moves on, ends or is queued */
+const _onDeploysChange = new vscode.EventEmitter<void>();
+export const onDeploysChange = _onDeploysChange.event;
+
+function getDeployConfig() {
+  return vscode.workspace.getConfiguration("buildandship.deploy");
+}
+
+/** How many deploys may run side by side (group services included) */
+function maxConcurrent(): number {
+  return Math.max(1, getDeployConfig().get<number>("maxConcurrent", 3));
+}
+
+/** Deploys running, then those queued, oldest first */
+export function trackedDeploys(): TrackedDeploy[] {
+  return [...running.values(), ...queue].map((run) => run.info);
+}
+
+/** Fields every event about this run carries */
+function eventBase(run: DeployRun): DeployEventBase {
+  return { project: run.info.project, folder: run.info.folder.uri, preview: run.options.preview, grouped: run.info.grouped };
+}
+
+function matches(run: DeployRun, project: string): boolean {
+  return run.info.key === project || run.info.project === project;
+}
+
+/**
+ * Cancel one project's deploy (running or queued), or every deploy when
+ * no project is given. A group service cancels on its own.
+ */
+export function cancelDeploy(project?: string): void {
+  const runs = [...running.values(), ...queue].filter((run) => !project || matches(run, project));
+  if (runs.length === 0) { return; }
+
+  const output = getOutputChannel();
+  for (const run of runs) {
+    if (run.info.state === "queued") {
+      output.appendLine(`■ Dropped the queued deploy of ${run.info.project}`);
+      queue = queue.filter((q) => q !== run);
+      run.waiters.forEach((resolve) => resolve(undefined));
+      continue;
+    }
+    output.appendLine(`■ Cancelling ${run.info.project}…`);
+    run.info.label = "Cancelling";
+    run.checks?.abort();
+    run.proc?.cancel();
+  }
+  deploysChanged();
+}
+
+/** True while anything (or the given project) is deploying or queued */
+export function isDeploying(project?: string): boolean {
+  if (project === undefined) { return running.size > 0 || queue.length > 0; }
+  return [...running.values(), ...queue].some((run) => matches(run, project));
+}
 
-/** Callback fired when a deploy succeeds with a live URL */
-let _onDeploySuccess: ((projectName: string, publicUrl: string) => void) | undefined;
+/** Resolves once nothing (or the given project) is deploying — immediately if so already */
+export function whenIdle(project?: string): Promise<void> {
+  if (!isDeploying(project)) { return Promise.resolve(); }
+  return new Promise((resolve) => idleWaiters.push({ project, resolve }));
+}
+
+/** Publish the new state: context key, Deploys view, status bar, idle waiters */
+function deploysChanged(): void {
+  vscode.commands.executeCommand("setContext", "buildandship.deploying", isDeploying());
+  _onDeploysChange.fire();
+  renderDeployProgress();
 
-/** Callback fired when a deploy fails (for sidebar refresh) */
-let _onDeployFailure: (() => void) | undefined;
+  const waiting = idleWaiters;
+  idleWaiters = waiting.filter((w) => isDeploying(w.project));
+  waiting.filter((w) => !isDeploying(w.project)).forEach((w) => w.resolve());
+}
 
-/** Register a handler for deploy success events */
-export function onDeploySuccess(handler: (projectName: string, publicUrl: string) => void): void {
-  _onDeploySuccess = handler;
+/** Reveal the deploy output channel */
+export function showDeployOutput(): void {
+  getOutputChannel().show(true);
 }
 
-/** Register a handler for deploy failure events */
-export function onDeployFailure(handler: () => void): void {
-  _onDeployFailure = handler;
+function getOutputChannel(): vscode.OutputChannel {
+  if (!outputChannel) {
+    outputChannel = vscode.window.createOutputChannel("Build & Ship: Deploy");
+  }
+  return outputChannel;
 }
 
-/** Pre-deploy snapshot of project states for diff detection */
-interface ProjectSnapshot {
-  status: string;
-  url: string;
+/** Output lines for one run — prefixed with the project while others share the channel */
+function runLogger(run: DeployRun): (line: string) => void {
+  const output = getOutputChannel();
+  return (line) => output.appendLine(running.size > 1 ? `[${run.info.project}] ${line}` : line);
 }
 
-/** Stop the deploy watcher polling */
-function stopDeployWatcher(): void {
-  if (deployWatcherInterval) {
-    clearInterval(deployWatcherInterval);
-    deployWatcherInterval = undefined;
+/**
+ * Run `bs deploy` as a child process and track it to completion.
+ * `folderUri` comes from the explorer context menu; otherwise the folder
+ * is picked (multi-root) or is the only workspace folder. With `preview`,
+ * the folder ships as a separate preview instance (see previews.ts).
+ * If the project is already deploying (or every slot is taken) the deploy
+ * is queued and this resolves once it has run. Resolves with how it
+ * ended, or undefined if it never started.
+ */
+export async function deploy(folderUri?: vscode.Uri, options: DeployOptions = {}): Promise<DeployOutcome | undefined> {
+  if (!vscode.workspace.workspaceFolders?.length && !folderUri) {
+    // This is the one case where a message is warranted — no folder open
+    vscode.window.showErrorMessage("Build & Ship: Open a project folder first. We can't deploy vibes alone.");
+    return undefined;
   }
+
+  const workspaceFolder = await pickFolder("Deploy which folder?", folderUri);
+  if (!workspaceFolder) { return undefined; }
+
+  if (!(await ensureReady(options.unattended))) { return undefined; }
+
+  let projectName = await projectKey(workspaceFolder);
+  if (options.preview) { projectName = `${projectName} (preview: ${options.preview})`; }
+
+  const run: DeployRun = {
+    info: { key: projectName, project: projectName, folder: workspaceFolder, state: "queued", label: "Queued", since: Date.now(), grouped: false },
+    options,
+    waiters: [],
+  };
+  return admit(run);
 }
 
 /**
- * Start watching for deploy completion. Takes a snapshot before deploy starts,
- * then polls every 1 second for state changes. Detects:
- * - New live project (wasn't live before → celebration)
- * - Re-deploy (was live, URL changed → celebration)
- * - Failure (project went to "failed" → refresh only)
+ * The project a folder deploys as — its binding, else the folder's own
+ * name, which is what the CLI calls it. Keys `running` and the queue.
  */
-async function startDeployWatcher(): Promise<void> {
-  // ── Snapshot: capture current state before deploy ──────────────
-  const snapshot = new Map<string, ProjectSnapshot>();
+async function projectKey(folder: FolderTarget): Promise<string> {
+  // The CLI names the project in its events; until then use the folder's binding
+  return (await boundProject(folder)) ?? path.basename(folder.uri.fsPath);
+}
+
+/** Start a deploy now, or queue it behind its project or for a free slot */
+function admit(run: DeployRun): Promise<DeployOutcome | undefined> {
+  const busy = isDeploying(run.info.key);
+  if (busy || running.size >= maxConcurrent()) {
+    return enqueue(run, busy);
+  }
+  return startRun(run);
+}
+
+/** Queue a deploy behind the running one of the same project (or for a free slot) */
+function enqueue(run: DeployRun, sameProject: boolean): Promise<DeployOutcome | undefined> {
+  const { key } = run.info;
+  if (sameProject && getDeployConfig().get<string>("whenBusy", "queue") === "refuse") {
+    vscode.window.setStatusBarMessage(`$(circle-slash) ${key} is already deploying`, 5000);
+    showDeployOutput();
+    return Promise.resolve(undefined);
+  }
+
+  // One follow-up per project is plenty — it ships whatever is on disk by then
+  const existing = queue.find((q) => q.info.key === key);
+  if (existing) {
+    return new Promise((resolve) => existing.waiters.push(resolve));
+  }
+
+  queue.push(run);
+  vscode.window.setStatusBarMessage(
+    sameProject
+      ? `$(clock) ${key} queued — it ships again once the current deploy ends`
+      : `$(clock) ${key} queued — ${maxConcurrent()} deploys are already running`,
+    5000
+  );
+  deploysChanged();
+  return new Promise((resolve) => run.waiters.push(resolve));
+}
+
+/** Start queued deploys whose project is free, while slots last */
+function pumpQueue(): void {
+  for (const run of [...queue]) {
+    if (running.size >= maxConcurrent()) { break; }
+    if ([...running.values()].some((r) => matches(r, run.info.key))) { continue; }
+    queue = queue.filter((q) => q !== run);
+    void startRun(run)
+      .catch((err: unknown) => runFailed(run, err))
+      .then((outcome) => run.waiters.forEach((resolve) => resolve(outcome)));
+  }
+}
+
+/** Report a queued run that threw before it could finish (spawn or check errors) */
+function runFailed(run: DeployRun, err: unknown): DeployOutcome {
+  const error = err instanceof Error ? err.message : String(err);
+  runLogger(run)(`✗ Deploy failed: ${error}`);
+  showDeployFailed(run.info.project, error);
+  const failed = { ...eventBase(run), error, exitCode: null, problems: 0, durationMs: Date.now() - run.info.since };
+  emit.deployFailed(failed);
+  return { status: "failed", ...failed };
+}
+
+/** Take a run off the books — safe to call twice */
+function release(run: DeployRun): void {
+  if (running.get(run.info.key) !== run) { return; }
+  running.delete(run.info.key);
+  deploysChanged();
+}
+
+async function startRun(run: DeployRun): Promise<DeployOutcome | undefined> {
   try {
-    const [projects, status] = await Promise.all([
-      listProjects().catch(() => []),
-      statusAll().catch(() => ({ projects: [] })),
-    ]);
-
-    // Merge data from both sources for a complete picture
-    const statusMap = new Map(status.projects.map((s) => [s.name, s]));
-    for (const p of projects) {
-      const s = statusMap.get(p.name);
-      snapshot.set(p.name, {
-        status: p.status || s?.status || "",
-        url: p.public_url || s?.url || "",
-      });
+    return await deployFolder(run);
+  } finally {
+    release(run);
+    pumpQueue();
+  }
+}
+
+async function deployFolder(run: DeployRun): Promise<DeployOutcome> {
+  const { folder: workspaceFolder } = run.info;
+  const { preview, unattended = false } = run.options;
+  let projectName = run.info.project;
+
+  // Only wipe the output when nothing else is writing to it (a group wiped it up front)
+  const output = getOutputChannel();
+  if (running.size === 0 && !run.info.grouped) { output.clear(); }
+  running.set(run.info.key, run);
+  run.info.since = Date.now();
+  const log = runLogger(run);
+  // A checked group service announced itself before its checks
+  if (!run.checked) { emit.deployStarted({ ...eventBase(run), unattended }); }
+
+  if (checksEnabled() && !run.checked) {
+    const abort = new AbortController();
+    run.checks = abort;
+    run.info.state = "checks";
+    run.info.label = "Running checks";
+    deploysChanged();
+    emit.deployProgress({ ...eventBase(run), label: "Running checks" });
+    log("── Pre-deploy checks");
+
+    const results = await runChecks(workspaceFolder.uri, projectName, output, abort.signal, unattended);
+    const proceed = !abort.signal.aborted && await confirmChecks(results, unattended);
+    run.checks = undefined;
+
+    if (!proceed) {
+      log("■ Deploy stopped before it started");
+      release(run);
+      showDeployCancelled(projectName);
+      const cancelled = { ...eventBase(run), beforeStart: true };
+      emit.deployCancelled(cancelled);
+      return { status: "cancelled", ...cancelled };
     }
-  } catch {
-    // Snapshot failed — we'll still detect new projects (just not re-deploys)
+    log("");
   }
 
-  // ── Poll every 1 second for changes ───────────────────────────
-  let tickCount = 0;
-  const maxTicks = 600; // 10 minutes at 1s intervals
-  let alreadyFired = false;
+  log(`$ bs deploy${preview ? ` --preview ${preview}` : ""}  (${workspaceFolder.uri.fsPath})`);
+
+  run.info.state = "deploying";
+  run.info.label = "Shipping";
+  deploysChanged();
+  emit.deployProgress({ ...eventBase(run), label: "Shipping" });
 
-  stopDeployWatcher(); // Clear any existing watcher
+  const transcript: string[] = [];
 
-  deployWatcherInterval = setInterval(async () => {
-    tickCount++;
-    if (tickCount > maxTicks || alreadyFired) {
-      stopDeployWatcher();
+  run.proc = runDeploy(workspaceFolder.uri.fsPath, (event: DeployEvent) => {
+    if (event.project) {
+      projectName = event.project;
+      run.info.project = event.project;
+    }
+    if (event.message && transcript.length < TRANSCRIPT_LIMIT) {
+      transcript.push(event.message);
+    }
+
+    if (event.type === "phase" && event.phase) {
+      const label = PHASE_LABELS[event.phase] ?? event.phase;
+      log(`── ${label}${event.message ? `: ${event.message}` : ""}`);
+      run.info.phase = event.phase;
+      if (run.service) { run.service.phase = event.phase; }
+      if (run.info.label !== "Cancelling") { run.info.label = label; }
+      deploysChanged();
+      emit.deployProgress({ ...eventBase(run), phase: event.phase, label });
       return;
     }
 
-    try {
-      const [projects, status] = await Promise.all([
-        listProjects().catch(() => []),
-        statusAll().catch(() => ({ projects: [] })),
-      ]);
-
-      const statusMap = new Map(status.projects.map((s) => [s.name, s]));
-
-      for (const p of projects) {
-        const s = statusMap.get(p.name);
-        const currentStatus = p.status || s?.status || "";
-        const currentUrl = p.public_url || s?.url || "";
-        const prev = snapshot.get(p.name);
-
-        // ── Detect SUCCESS: project is now live with a URL ──────
-        if (currentStatus === "live" && currentUrl) {
-          const wasLive = prev?.status === "live";
-          const urlChanged = prev?.url !== currentUrl;
-          const wasNotLive = !prev || prev.status !== "live";
-
-          if (wasNotLive || urlChanged) {
-            // New deploy or re-deploy succeeded!
-            alreadyFired = true;
-            stopDeployWatcher();
-            clearDeployProgress();
-            if (_onDeploySuccess) {
-              _onDeploySuccess(p.name, currentUrl);
-            }
-            return;
-          }
-        }
-
-        // ── Detect FAILURE: project went from building to failed ──
-        if (currentStatus === "failed" && prev && prev.status !== "failed") {
-          alreadyFired = true;
-          stopDeployWatcher();
-          clearDeployProgress();
-          if (_onDeployFailure) {
-            _onDeployFailure();
-          }
-          return;
-        }
-      }
-    } catch {
-      // Silently ignore polling errors — keep trying
+    if (event.message) {
+      log(event.type === "error" ? `✗ ${event.message}` : event.message);
     }
-  }, 1000);
-}
+  }, preview);
 
-/** Run `bs deploy` in the integrated terminal */
-export async function deploy(): Promise<void> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+  const result = await run.proc.done;
+  const project = run.info.project = result.project ?? projectName;
+  if (run.service) {
+    run.service.project = project;
+    run.service.result = result;
+  }
+  const durationMs = Date.now() - run.info.since;
+  // Log while still counted (so the prefix sticks), then free the slot before reporting
+  if (result.cancelled) {
+    log("■ Deploy cancelled");
+  } else if (result.success) {
+    log(`✓ ${project} is live${result.url ? ` at ${result.url}` : ""}`);
+  } else {
+    log(`✗ Deploy failed${result.exitCode !== null ? ` (exit ${result.exitCode})` : ""}: ${result.error}`);
+  }
+  release(run);
 
-  if (!workspaceFolder) {
-    // This is the one case where a message is warranted — no folder open
-    vscode.window.showErrorMessage("Build & Ship: Open a project folder first. We can't deploy vibes alone.");
-    return;
+  if (result.cancelled) {
+    showDeployCancelled(project);
+    const cancelled = { ...eventBase(run), beforeStart: false };
+    emit.deployCancelled(cancelled);
+    return { status: "cancelled", ...cancelled };
+  }
+  if (result.success) {
+    showDeployLive(project);
+    clearDeployProblems(project);
+    const live = { ...eventBase(run), url: result.url, deployId: result.deployId, durationMs };
+    emit.deploySucceeded(live);
+    return { status: "live", ...live };
   }
 
+  showDeployFailed(project, result.error ?? "Unknown error");
+  const problems = await reportDeployProblems(project, workspaceFolder.uri.fsPath, transcript, result.error);
+  if (problems > 0) {
+    output.appendLine(`  ${problems} problem${problems === 1 ? "" : "s"} pinned to your code — see the Problems panel`);
+  }
+  const failed = { ...eventBase(run), error: result.error ?? "Unknown error", exitCode: result.exitCode, problems, durationMs };
+  emit.deployFailed(failed);
+  return { status: "failed", ...failed };
+}
+
+/**
+ * Make sure the CLI is installed and signed in, walking the user through
+ * either — or, unattended, just saying whether it is.
+ */
+async function ensureReady(unattended = false): Promise<boolean> {
   // Check CLI is installed
   const cliOk = await isCliInstalled();
+  if (unattended) { return cliOk && isLoggedIn(); }
   if (!cliOk) {
     await vscode.commands.executeCommand("buildandship.installCli");
-    return;
+    return false;
   }
 
   // Check auth — if not logged in, trigger login first
   const authed = await isLoggedIn();
   if (!authed) {
     await vscode.commands.executeCommand("buildandship.login");
-    // Re-check after login flow completes
-    const nowAuthed = await isLoggedIn();
-    if (!nowAuthed) { return; } // user cancelled login
-  }
-
-  // If there's already a deploy terminal, check if it's still alive
-  if (activeDeployTerminal) {
-    // Check if the terminal is still in the active terminal list
-    const stillAlive = vscode.window.terminals.includes(activeDeployTerminal);
-    if (stillAlive) {
-      // Dispose the old terminal so we can start a fresh deploy
-      activeDeployTerminal.dispose();
-    }
-    activeDeployTerminal = undefined;
+    // Re-check after login flow completes (false if the user cancelled)
+    return isLoggedIn();
   }
+  return true;
+}
 
-  // ── Snapshot + start watching BEFORE deploy starts ─────────────
-  await startDeployWatcher();
+/**
+ * Deploy several folders at once, in parallel. Checks run once per folder
+ * up front; then every service goes through the same queue as single
+ * deploys (so `maxConcurrent` applies). Resolves with every service's
+ * outcome once all of them have run (undefined if nothing ran, e.g.
+ * because one of the services is already deploying or checks stopped it).
+ */
+export async function deployGroup(targets: FolderTarget[]): Promise<ServiceDeploy[] | undefined> {
+  if (targets.length === 0) { return undefined; }
+  if (!(await ensureReady())) { return undefined; }
 
-  // Create terminal for deploy
-  const terminal = vscode.window.createTerminal({
-    name: "🚀 Build & Ship: Deploy",
-    cwd: workspaceFolder.uri,
-    iconPath: new vscode.ThemeIcon("rocket"),
-  });
+  const services: ServiceDeploy[] = await Promise.all(
+    targets.map(async (target) => ({ target, project: await projectKey(target) }))
+  );
+  const busy = services.filter((s) => isDeploying(s.project));
+  if (busy.length > 0) {
+    vscode.window.setStatusBarMessage(`$(circle-slash) Already deploying: ${busy.map((s) => s.project).join(", ")}`, 5000);
+    showDeployOutput();
+    return undefined;
+  }
 
-  activeDeployTerminal = terminal;
-  terminal.show();
-  terminal.sendText("bs deploy");
-
-  // ── Status bar progress (non-invasive) ────────────────────────
-  showDeployProgress(workspaceFolder.name);
-
-  // ── Terminal close: cleanup ───────────────────────────────────
-  const disposable = vscode.window.onDidCloseTerminal(async (t) => {
-    if (t === terminal) {
-      activeDeployTerminal = undefined;
-      disposable.dispose();
-      stopDeployWatcher();
-      clearDeployProgress();
+  const width = Math.max(...services.map((s) => s.target.name.length));
+  const prefix = (s: ServiceDeploy) => `[${s.target.name.padEnd(width)}]`;
+
+  const output = getOutputChannel();
+  if (running.size === 0) { output.clear(); }
+
+  const runs = services.map((service): DeployRun => ({
+    info: { key: service.project, project: service.project, folder: service.target, state: "queued", label: "Queued", since: Date.now(), grouped: true },
+    options: {},
+    group: services,
+    service,
+    waiters: [],
+  }));
+
+  if (checksEnabled() && !(await checkGroup(runs, prefix))) { return undefined; }
+
+  // Fan out through the queue, like any other deploy
+  const outcomes = await Promise.all(runs.map((run) => admit(run)));
+
+  // Dropped from the queue before it ran — count it as cancelled
+  for (const [i, s] of services.entries()) {
+    if (!outcomes[i]) { s.result ??= { success: false, cancelled: true, exitCode: null }; }
+  }
+
+  // ── Summary ──
+  output.appendLine("");
+  output.appendLine("── Summary");
+  for (const s of services) {
+    const r = s.result!;
+    const line = r.cancelled ? "■ cancelled"
+      : r.success ? `✓ live${r.url ? `  ${r.url}` : ""}`
+      : `✗ failed: ${r.error ?? "Unknown error"}`;
+    output.appendLine(`${prefix(s)} ${s.project !== s.target.name ? `${s.project}  ` : ""}${line}`);
+  }
+
+  showGroupDone(services);
+  return services;
+}
+
+/**
+ * Run the pre-deploy checks for every service folder, one after another,
+ * and ask once about the lot. The runs count as deploying meanwhile, so
+ * Cancel stops the checks. Resolves true to go ahead.
+ */
+async function checkGroup(runs: DeployRun[], prefix: (s: ServiceDeploy) => string): Promise<boolean> {
+  const output = getOutputChannel();
+  const abort = new AbortController();
+  for (const run of runs) {
+    run.checks = abort;
+    run.info.state = "checks";
+    run.info.label = "Running checks";
+    running.set(run.info.key, run);
+    emit.deployStarted({ ...eventBase(run), unattended: false });
+  }
+  deploysChanged();
+
+  const results: CheckResult[] = [];
+  for (const run of runs) {
+    if (abort.signal.aborted) { break; }
+    const service = run.service!;
+    output.appendLine(`${prefix(service)} ── Pre-deploy checks`);
+    const found = await runChecks(service.target.uri, service.project, output, abort.signal);
+    for (const r of found) {
+      // Docker is the same for every service — report it once
+      if (r.name === "Docker") {
+        if (!results.some((seen) => seen.name === "Docker")) { results.push(r); }
+        continue;
+      }
+      results.push({ ...r, detail: `${service.target.name} — ${r.detail}` });
     }
-  });
+  }
+  const proceed = !abort.signal.aborted && await confirmChecks(results);
+
+  for (const run of runs) {
+    run.checks = undefined;
+    running.delete(run.info.key);
+  }
+  if (!proceed) {
+    output.appendLine("■ Deploy stopped before it started");
+    deploysChanged();
+    showDeployCancelled(`${runs.length} services`);
+    runs.forEach((run) => emit.deployCancelled({ ...eventBase(run), beforeStart: true }));
+    return false;
+  }
+  output.appendLine("");
+  for (const run of runs) {
+    run.checked = true;
+    run.info.state = "queued";
+    run.info.label = "Queued";
+  }
+  return true;
 }
 
-/** Show a discreet animated status bar item during deploy */
-function showDeployProgress(projectName: string): void {
+function getDeployStatusItem(): vscode.StatusBarItem {
+  if (deployStatusTimer) {
+    clearTimeout(deployStatusTimer);
+    deployStatusTimer = undefined;
+  }
   if (!deployStatusItem) {
     deployStatusItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Left,
       100 // High priority — show prominently but still just a status bar item
     );
   }
+  return deployStatusItem;
+}
 
-  deployStatusItem.text = `$(sync~spin) Shipping ${projectName}…`;
-  deployStatusItem.tooltip = "Your code is becoming a website — click to watch the magic";
-  deployStatusItem.command = "workbench.action.terminal.focus";
-  deployStatusItem.backgroundColor = undefined;
-  deployStatusItem.show();
+/** Show whatever is running now: one deploy, one group, or a count of several */
+function renderDeployProgress(): void {
+  const runs = [...running.values()];
+  if (runs.length === 0) { return; }
+
+  const group = runs[0].group;
+  if (group && runs.every((r) => r.group === group)) {
+    if (runs.every((r) => r.info.state === "checks")) {
+      showChecksProgress(`${group.length} services`, "Running checks");
+    } else {
+      showGroupProgress(group);
+    }
+  } else if (runs.length === 1) {
+    const { info } = runs[0];
+    if (info.state === "checks") {
+      showChecksProgress(info.project, info.label);
+    } else {
+      showDeployProgress(info.project, info.label);
+    }
+  } else {
+    showManyProgress(runs.map((r) => r.info));
+  }
+}
+
+/** Show a discreet animated status bar item during deploy */
+function showDeployProgress(projectName: string, label: string): void {
+  const item = getDeployStatusItem();
+
+  const tooltip = new vscode.MarkdownString(
+    "Your code is becoming a website.\n\nClick to cancel · [Watch the magic](command:buildandship.showDeployOutput)"
+  );
+  tooltip.isTrusted = true;
+
+  item.text = `$(sync~spin) ${projectName}: ${label}…`;
+  item.tooltip = tooltip;
+  item.command = "buildandship.cancelDeploy";
+  item.backgroundColor = undefined;
+  item.show();
+}
+
+/** Several unrelated deploys at once — a count, with each one in the tooltip */
+function showManyProgress(deploys: TrackedDeploy[]): void {
+  const item = getDeployStatusItem();
+  const waiting = queue.length > 0 ? ` (+${queue.length} queued)` : "";
+
+  const lines = [...deploys, ...queue.map((q) => q.info)].map((d) =>
+    d.state === "queued" ? `$(clock) **${d.project}** — queued` : `$(sync~spin) **${d.project}** — ${d.label}`
+  );
+  const tooltip = new vscode.MarkdownString(
+    lines.join("  \n") + "\n\nClick to see them all · [Cancel all](command:buildandship.cancelDeploy)",
+    true
+  );
+  tooltip.isTrusted = true;
+
+  item.text = `$(sync~spin) Shipping ${deploys.length} projects${waiting}…`;
+  item.tooltip = tooltip;
+  item.command = "buildandship.deploys.focus";
+  item.backgroundColor = undefined;
+  item.show();
+}
+
+function serviceLine(s: ServiceDeploy): string {
+  const r = s.result;
+  if (!r) { return `$(sync~spin) **${s.target.name}** — ${s.phase ? PHASE_LABELS[s.phase] ?? s.phase : "Shipping"}`; }
+  if (r.cancelled) { return `$(circle-slash) **${s.target.name}** — cancelled`; }
+  if (!r.success) { return `$(error) **${s.target.name}** — failed`; }
+  return `$(check) **${s.target.name}** — ${r.url ? `[${r.url}](${r.url})` : "live"}`;
+}
+
+function groupTooltip(services: ServiceDeploy[], footer: string): vscode.MarkdownString {
+  const tooltip = new vscode.MarkdownString(
+    services.map(serviceLine).join("  \n") + `\n\n${footer}`,
+    true
+  );
+  tooltip.isTrusted = true;
+  return tooltip;
+}
+
+/** One status bar item for the whole group — the tooltip lists each service */
+function showGroupProgress(services: ServiceDeploy[]): void {
+  const item = getDeployStatusItem();
+  const done = services.filter((s) => s.result).length;
+
+  item.text = `$(sync~spin) Shipping ${services.length} services (${done}/${services.length})…`;
+  item.tooltip = groupTooltip(services, "Click to cancel all · [Watch the magic](command:buildandship.showDeployOutput)");
+  item.command = "buildandship.cancelDeploy";
+  item.backgroundColor = undefined;
+  item.show();
+}
+
+/** Group outcome with every URL in the tooltip, then auto-dismiss */
+function showGroupDone(services: ServiceDeploy[]): void {
+  const live = services.filter((s) => s.result?.success).length;
+  const failed = services.filter((s) => s.result && !s.result.success && !s.result.cancelled).length;
+
+  const text = failed > 0
+    ? `$(error) ${failed} of ${services.length} services failed`
+    : live === services.length
+      ? `$(check) ${live} services live`
+      : `$(circle-slash) ${live} of ${services.length} services live`;
+  if (running.size > 0) {
+    vscode.window.setStatusBarMessage(text, 8000);
+    renderDeployProgress();
+    return;
+  }
+
+  const item = getDeployStatusItem();
+  item.text = text;
+  item.tooltip = groupTooltip(services, "Click to see the summary");
+  item.command = "buildandship.showDeployOutput";
+  item.backgroundColor = failed > 0 ? new vscode.ThemeColor("statusBarItem.errorBackground") : undefined;
+  item.show();
+
+  deployStatusTimer = setTimeout(clearDeployProgress, 15000);
+}
+
+/** Spinner while pre-deploy checks run — clicking cancels them */
+function showChecksProgress(projectName: string, label: string): void {
+  const item = getDeployStatusItem();
+
+  const tooltip = new vscode.MarkdownString(
+    "Making sure it's worth shipping.\n\nClick to cancel · [Watch the checks](command:buildandship.showDeployOutput)"
+  );
+  tooltip.isTrusted = true;
+
+  item.text = `$(sync~spin) ${projectName}: ${label}…`;
+  item.tooltip = tooltip;
+  item.command = "buildandship.cancelDeploy";
+  item.backgroundColor = undefined;
+  item.show();
+}
+
+/** Success is celebrated in the webviews — here the item just makes way */
+function showDeployLive(projectName: string): void {
+  if (running.size > 0) {
+    vscode.window.setStatusBarMessage(`$(check) ${projectName} is live`, 5000);
+    renderDeployProgress();
+    return;
+  }
+  clearDeployProgress();
+}
+
+/** Briefly confirm the cancellation, then auto-dismiss */
+function showDeployCancelled(projectName: string): void {
+  if (running.size > 0) {
+    vscode.window.setStatusBarMessage(`$(circle-slash) ${projectName}: deploy cancelled`, 5000);
+    renderDeployProgress();
+    return;
+  }
+
+  const item = getDeployStatusItem();
+
+  item.text = `$(circle-slash) ${projectName}: deploy cancelled`;
+  item.tooltip = "Click to see the output";
+  item.command = "buildandship.showDeployOutput";
+  item.backgroundColor = undefined;
+  item.show();
+
+  deployStatusTimer = setTimeout(clearDeployProgress, 5000);
+}
+
+/** Turn the deploy item red with the error, then auto-dismiss */
+function showDeployFailed(projectName: string, error: string): void {
+  if (running.size > 0) {
+    // Others are still shipping — keep their spinner, flash the failure beside it
+    vscode.window.setStatusBarMessage(`$(error) ${projectName}: deploy failed`, 8000);
+    renderDeployProgress();
+    return;
+  }
+
+  const item = getDeployStatusItem();
+
+  item.text = `$(error) ${projectName}: deploy failed`;
+  item.tooltip = `${error}\n\nClick to see the full output`;
+  item.command = "buildandship.showDeployOutput";
+  item.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground");
+  item.show();
+
+  deployStatusTimer = setTimeout(clearDeployProgress, 15000);
 }
 
 /** Clear the deploy status bar item (auto-dismiss) */
 function clearDeployProgress(): void {
+  if (deployStatusTimer) {
+    clearTimeout(deployStatusTimer);
+    deployStatusTimer = undefined;
+  }
   if (deployStatusItem) {
     deployStatusItem.dispose();
     deployStatusItem = undefined;
   }
 }
 
-/** Run `bs init` in terminal */
-export async function init(): Promise<void> {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+/** A deploy that finished and served (the current one, or one that could again) */
+function succeeded(d: Deploy): boolean {
+  return d.status === "live" || d.status === "success";
+}
+
+/**
+ * Deploys a project can roll back to, newest first: the successful ones
+ * older than the live deploy. The live deploy is the newest successful
+ * one — failed, queued or in-progress deploys above it aren't serving.
+ */
+export function rollbackTargets(deploys: Deploy[]): Deploy[] {
+  const live = deploys.findIndex(succeeded);
+  return live < 0 ? [] : deploys.slice(live + 1).filter(succeeded);
+}
+
+/**
+ * Roll a project back to a previous deploy. Prompts for the project and
+ * deploy when not given, confirms with the commit + age, then watches
+ * until the project reports live again. Resolves true on confirmed live.
+ */
+export async function rollback(projectName?: string, deployId?: string): Promise<boolean> {
+  if (!projectName) {
+    const projects = await getProjects().catch(() => []);
+    const pick = await vscode.window.showQuickPick(
+      projects.map((p) => ({ label: p.name, description: p.status })),
+      { placeHolder: "Roll back which project?" }
+    );
+    if (!pick) { return false; }
+    projectName = pick.label;
+  }
+
+  // A rollback racing a deploy of the same project would be undone by it (or undo it)
+  if (isDeploying(projectName)) {
+    vscode.window.showWarningMessage(`Build & Ship: ${projectName} is deploying. Roll back once it has finished (or cancel it).`);
+    return false;
+  }
+
+  let detail;
+  try {
+    detail = await getStatusDetail(projectName, { fresh: true });
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't load deploys for ${projectName}. ${err.message}`);
+    return false;
+  }
+
+  const candidates = rollbackTargets(detail.deploys ?? []);
+  let target = deployId ? detail.deploys?.find((d) => d.id === deployId) : undefined;
+
+  if (!target) {
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage(`Build & Ship: ${projectName} has no earlier successful deploy to roll back to.`);
+      return false;
+    }
+    const pick = await vscode.window.showQuickPick(
+      candidates.map((d) => ({
+        label: d.commit_sha ? shortSha(d.commit_sha) : d.id,
+        description: [d.branch, formatRelativeTime(d.created_at)].filter(Boolean).join(" · "),
+        deploy: d,
+      })),
+      { placeHolder: `Roll ${projectName} back to…` }
+    );
+    if (!pick) { return false; }
+    target = pick.deploy;
+  }
+
+  const what = target.commit_sha ? `commit ${shortSha(target.commit_sha)}` : `deploy ${target.id}`;
+  const confirm = await vscode.window.showWarningMessage(
+    `Roll ${projectName} back to ${what} (deployed ${formatRelativeTime(target.created_at)})?`,
+    { modal: true, detail: "The current version stops serving as soon as the old one is up." },
+    "Roll Back"
+  );
+  if (confirm !== "Roll Back") { return false; }
+
+  // Its own item — deploys of other projects keep theirs
+  const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  const dismiss = (ms: number) => setTimeout(() => item.dispose(), ms);
+  item.text = `$(history) Rolling back ${projectName}…`;
+  item.tooltip = `Restoring ${what}`;
+  item.command = "buildandship.showDeployOutput";
+  item.backgroundColor = undefined;
+  item.show();
+
+  const output = getOutputChannel();
+  output.appendLine(`$ bs rollback ${projectName} ${target.id}`);
+
+  try {
+    await cliRollback(projectName, target.id);
+  } catch (err: any) {
+    output.appendLine(`✗ ${err.message}`);
+    showRollbackFailed(item, projectName, err.message);
+    dismiss(15000);
+    return false;
+  }
+
+  item.text = `$(sync~spin) ${projectName}: waiting for live…`;
+  const live = await waitForLive(projectName);
+
+  if (live) {
+    output.appendLine(`✓ ${projectName} is live again on ${what}`);
+    item.text = `$(check) ${projectName} rolled back to ${target.commit_sha ? shortSha(target.commit_sha) : target.id}`;
+    item.tooltip = undefined;
+    dismiss(5000);
+  } else {
+    output.appendLine(`✗ ${projectName} didn't come back live after the rollback`);
+    showRollbackFailed(item, projectName, "Rolled back, but the project didn't come back live. Check the logs.");
+    dismiss(15000);
+  }
+  return live;
+}
+
+/** Turn the rollback item red with the error */
+function showRollbackFailed(item: vscode.StatusBarItem, projectName: string, error: string): void {
+  item.text = `$(error) ${projectName}: rollback failed`;
+  item.tooltip = `${error}\n\nClick to see the full output`;
+  item.command = "buildandship.showDeployOutput";
+  item.backgroundColor = new vscode.ThemeColor("statusBarItem.errorBackground");
+}
+
+/** Poll the project's status until it's live (true) or the timeout passes (false) */
+async function waitForLive(projectName: string, timeoutMs = 120000): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    try {
+      const d = await getStatusDetail(projectName, { fresh: true });
+      if (d.status === "live") { return true; }
+      if (d.status === "failed") { return false; }
+    } catch {
+      // Transient CLI errors while the container restarts — keep polling
+    }
+    await new Promise((r) => setTimeout(r, 2000));
+  }
+  return false;
+}
 
-  if (!workspaceFolder) {
+/** Run `bs init` in terminal (in the clicked, only, or picked folder) */
+export async function init(folderUri?: vscode.Uri): Promise<void> {
+  if (!vscode.workspace.workspaceFolders?.length && !folderUri) {
     vscode.window.showErrorMessage("Build & Ship: Open a project folder first. We need something to work with!");
     return;
   }
 
+  const workspaceFolder = await pickFolder("Initialize which folder?", folderUri);
+  if (!workspaceFolder) { return; }
+
   const terminal = vscode.window.createTerminal({
     name: "Build & Ship: Init",
     cwd: workspaceFolder.uri,
@@ -271,46 +956,50 @@ export async function viewLogs(projectName: string): Promise<void> {
   terminal.sendText(`bs logs ${projectName}`);
 }
 
-/** Stop a project — no modal, just do it */
-export async function stop(projectName: string): Promise<void> {
-  const terminal = vscode.window.createTerminal({
-    name: `Build & Ship: Stop`,
-    iconPath: new vscode.ThemeIcon("debug-stop"),
-    isTransient: true,
-  });
+/**
+ * Run a project action through the CLI with window progress, report a
+ * failure, and refresh the views once it has finished either way.
+ */
+async function projectAction(projectName: string, title: string, action: () => Promise<void>): Promise<boolean> {
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: `${title} ${projectName}` },
+      action
+    );
+    return true;
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: ${title} ${projectName} failed. ${err.message}`);
+    return false;
+  } finally {
+    invalidate(projectName);
+  }
+}
 
-  terminal.sendText(`bs stop ${projectName}`);
-  terminal.show();
+/** Stop a project — no modal, just do it */
+export async function stop(projectName: string): Promise<boolean> {
+  const stopped = await projectAction(projectName, "Stopping", () => stopProject(projectName));
+  if (stopped) { vscode.window.setStatusBarMessage(`$(debug-stop) ${projectName} stopped`, 4000); }
+  return stopped;
 }
 
 /** Restart a project */
-export async function restart(projectName: string): Promise<void> {
-  const terminal = vscode.window.createTerminal({
-    name: `Build & Ship: Restart`,
-    iconPath: new vscode.ThemeIcon("debug-restart"),
-    isTransient: true,
-  });
-
-  terminal.sendText(`bs restart ${projectName}`);
-  terminal.show();
+export async function restart(projectName: string): Promise<boolean> {
+  const restarted = await projectAction(projectName, "Restarting", () => restartProject(projectName));
+  if (restarted) { vscode.window.setStatusBarMessage(`$(debug-restart) ${projectName} restarted`, 4000); }
+  return restarted;
 }
 
 /** Destroy a project — this one warrants a confirm (destructive + irreversible) */
-export async function destroy(projectName: string): Promise<void> {
+export async function destroy(projectName: string): Promise<boolean> {
   const confirm = await vscode.window.showWarningMessage(
     `Destroy ${projectName}? This nukes everything. There is no ctrl+z for this.`,
     { modal: true },
     "Destroy"
   );
 
-  if (confirm !== "Destroy") { return; }
+  if (confirm !== "Destroy") { return false; }
 
-  const terminal = vscode.window.createTerminal({
-    name: `Build & Ship: Destroy`,
-    iconPath: new vscode.ThemeIcon("trash"),
-    isTransient: true,
-  });
-
-  terminal.sendText(`bs destroy ${projectName} --force`);
-  terminal.show();
+  const destroyed = await projectAction(projectName, "Destroying", () => destroyProject(projectName));
+  if (destroyed) { vscode.window.setStatusBarMessage(`$(trash) ${projectName} destroyed`, 4000); }
+  return destroyed;
 }
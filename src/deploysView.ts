@@ -0,0 +1,73 @@
+/**
+ * Deploys TreeView — every deploy in flight, plus those waiting their
+ * turn. Shown under the project list while anything is deploying; each
+ * row cancels its own deploy (inline action) and opens the output.
+ *
+ *   ⟳ my-app       Building image · 42s
+ *   ⟳ api          Running checks · 3s     (group)
+ *   🕒 my-app       queued
+ */
+
+import * as vscode from "vscode";
+import { onDeploysChange, trackedDeploys, type TrackedDeploy } from "./deploy.js";
+import { formatDuration } from "./format.js";
+
+export class DeployItem extends vscode.TreeItem {
+  constructor(public readonly deploy: TrackedDeploy) {
+    super(deploy.project, vscode.TreeItemCollapsibleState.None);
+
+    const elapsed = formatDuration(Date.now() - deploy.since).replace(/\.\ds$/, "s");
+    this.description = deploy.state === "queued"
+      ? `queued · ${elapsed}`
+      : `${deploy.label} · ${elapsed}${deploy.grouped ? " · group" : ""}`;
+    this.iconPath = new vscode.ThemeIcon(deploy.state === "queued" ? "clock" : "sync~spin");
+    this.contextValue = `deploy,${deploy.state}`;
+    this.tooltip = `${deploy.project} — ${deploy.state === "queued" ? "waiting to deploy" : deploy.label}\n${deploy.folder.uri.fsPath}`;
+    this.accessibilityInformation = { label: `${deploy.project}, ${deploy.state === "queued" ? "queued" : deploy.label}` };
+    this.command = {
+      command: "buildandship.showDeployOutput",
+      title: "Show Deploy Output",
+    };
+  }
+}
+
+export class DeployTreeProvider implements vscode.TreeDataProvider<DeployItem>, vscode.Disposable {
+  private _onDidChange = new vscode.EventEmitter<DeployItem | undefined>();
+  readonly onDidChangeTreeData = this._onDidChange.event;
+
+  private subscription: vscode.Disposable;
+  /** Ticks the elapsed times while anything is listed */
+  private ticker?: ReturnType<typeof setInterval>;
+
+  constructor() {
+    this.subscription = onDeploysChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    const active = trackedDeploys().length > 0;
+    if (active && !this.ticker) {
+      this.ticker = setInterval(() => this._onDidChange.fire(undefined), 1000);
+    } else if (!active && this.ticker) {
+      clearInterval(this.ticker);
+      this.ticker = undefined;
+    }
+    this._onDidChange.fire(undefined);
+  }
+
+  getTreeItem(element: DeployItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: DeployItem): DeployItem[] {
+    if (element) { return []; }
+    return trackedDeploys().map((d) => new DeployItem(d));
+  }
+
+  dispose(): void {
+    if (this.ticker) {
+      clearInterval(this.ticker);
+    }
+    this.subscription.dispose();
+    this._onDidChange.dispose();
+  }
+}
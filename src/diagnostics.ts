@@ -0,0 +1,303 @@
+/**
+ * Deploy problems — turns a failed deploy's output, and crashes in the
+ * container logs being followed (logstream.ts), into diagnostics so
+ * failures show up in the Problems panel on the right file and line.
+ *
+ * Recognises TypeScript compiler errors, Dockerfile errors, missing
+ * modules (Node and Python) and Python tracebacks. Container paths are
+ * mapped back to the workspace the same way log links are (pathmap.ts).
+ * Kept per project and cleared on that project's next successful deploy.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import { projectFolder, resolveContainerPath } from "./pathmap.js";
+
+/** A problem found in deploy output, before its file is resolved */
+export interface DeployProblem {
+  /** Path as printed — relative to the project, or absolute in the container */
+  file: string;
+  /** 1-based */
+  line: number;
+  /** 1-based */
+  column: number;
+  message: string;
+  severity: vscode.DiagnosticSeverity;
+  code?: string;
+}
+
+/** Log lines kept per project so a traceback split across batches still parses */
+const RUNTIME_TAIL_LINES = 100;
+
+type ProblemsByFile = Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>;
+
+let collection: vscode.DiagnosticCollection | undefined;
+
+/** Current deploy problems per project, keyed by file URI */
+const problemsByProject = new Map<string, ProblemsByFile>();
+/** Problems found in container logs per project, keyed by file URI */
+const runtimeProblemsByProject = new Map<string, ProblemsByFile>();
+/** Runtime problems already reported (or being resolved) per project */
+const runtimeSeen = new Map<string, Set<string>>();
+/** Recent log lines per project */
+const runtimeTail = new Map<string, string[]>();
+
+/** Create the Problems panel collection (call once from activate) */
+export function initDiagnostics(context: vscode.ExtensionContext): void {
+  collection = vscode.languages.createDiagnosticCollection("buildandship");
+  context.subscriptions.push(collection);
+}
+
+// ── Parsing ──────────────────────────────────
+
+const ANSI = /\x1b\[[0-9;]*[A-Za-z]/g;
+/** BuildKit prefixes each line with the step number and a timestamp */
+const BUILDKIT_PREFIX = /^#\d+ \d+(?:\.\d+)? /;
+
+const TS_CLASSIC = /^(.+?)\((\d+),(\d+)\): (error|warning) (TS\d+): (.*)$/;
+const TS_PRETTY = /^(.+?):(\d+):(\d+) - (error|warning) (TS\d+): (.*)$/;
+const DOCKERFILE_PARSE = /dockerfile parse error (?:on )?line (\d+): (.*)$/i;
+const DOCKERFILE_LINE = /^Dockerfile:(\d+)$/;
+const FAILED_TO_SOLVE = /(?:ERROR: )?failed to solve: (.*)$/;
+const NODE_MISSING = /Cannot find (?:module|package) '([^']+)'(?: imported from (\S+))?/;
+const REQUIRE_STACK_ENTRY = /^- (\/\S+)$/;
+const PY_FRAME = /^\s*File "([^"]+)", line (\d+)/;
+const PY_EXCEPTION = /^(\w+(?:\.\w+)*(?:Error|Exception|Exit|Interrupt)\b.*)$/;
+
+function cleanLine(line: string): string {
+  return line.replace(ANSI, "").replace(BUILDKIT_PREFIX, "").trimEnd();
+}
+
+/** Extract problems from deploy output lines (plus the final error, if any) */
+export function parseDeployOutput(rawLines: string[]): DeployProblem[] {
+  const lines = rawLines.map(cleanLine);
+  const problems: DeployProblem[] = [];
+  const seen = new Set<string>();
+
+  const add = (problem: DeployProblem) => {
+    const key = `${problem.file}:${problem.line}:${problem.column}:${problem.message}`;
+    if (seen.has(key)) { return; }
+    seen.add(key);
+    problems.push(problem);
+  };
+
+  let solveError: string | undefined;
+  let pyFrame: { file: string; line: number } | undefined;
+  let inTraceback = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // TypeScript: "src/a.ts(12,5): error TS2322: …" or "src/a.ts:12:5 - error TS2322: …"
+    const ts = TS_CLASSIC.exec(line) ?? TS_PRETTY.exec(line);
+    if (ts) {
+      add({
+        file: ts[1].trim(),
+        line: Number(ts[2]),
+        column: Number(ts[3]),
+        message: ts[6],
+        severity: ts[4] === "warning" ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error,
+        code: ts[5],
+      });
+      continue;
+    }
+
+    // Dockerfile: parse errors name the line directly; BuildKit prints
+    // "failed to solve: …" and then a "Dockerfile:12" excerpt header
+    const parse = DOCKERFILE_PARSE.exec(line);
+    if (parse) {
+      add({ file: "Dockerfile", line: Number(parse[1]), column: 1, message: parse[2], severity: vscode.DiagnosticSeverity.Error });
+      continue;
+    }
+    const solve = FAILED_TO_SOLVE.exec(line);
+    if (solve) {
+      solveError = solve[1];
+      continue;
+    }
+    const dockerLine = DOCKERFILE_LINE.exec(line);
+    if (dockerLine) {
+      add({
+        file: "Dockerfile",
+        line: Number(dockerLine[1]),
+        column: 1,
+        message: solveError ?? "This build step failed",
+        severity: vscode.DiagnosticSeverity.Error,
+      });
+      continue;
+    }
+
+    // Python traceback: remember the innermost frame, report at the exception line
+    if (line.startsWith("Traceback (most recent call last)")) {
+      inTraceback = true;
+      pyFrame = undefined;
+      continue;
+    }
+    if (inTraceback) {
+      const frame = PY_FRAME.exec(line);
+      if (frame) {
+        pyFrame = { file: frame[1], line: Number(frame[2]) };
+        continue;
+      }
+      const exception = PY_EXCEPTION.exec(line);
+      if (exception) {
+        inTraceback = false;
+        const missing = /^ModuleNotFoundError: No module named '([^']+)'/.exec(exception[1]);
+        if (pyFrame) {
+          add({ file: pyFrame.file, line: pyFrame.line, column: 1, message: exception[1], severity: vscode.DiagnosticSeverity.Error });
+        }
+        if (missing) {
+          add({
+            file: "requirements.txt",
+            line: 1,
+            column: 1,
+            message: `No module named '${missing[1]}' — is it listed in requirements.txt?`,
+            severity: vscode.DiagnosticSeverity.Error,
+          });
+        }
+      }
+      continue;
+    }
+
+    // Node: "Cannot find module 'x'" with "imported from <file>" (ESM) or a Require stack (CJS)
+    const missing = NODE_MISSING.exec(line);
+    if (missing && !/\bTS\d+\b/.test(line)) {
+      const specifier = missing[1];
+      let importer: string | undefined = missing[2];
+      for (let j = i + 1; !importer && j < Math.min(lines.length, i + 4); j++) {
+        importer = REQUIRE_STACK_ENTRY.exec(lines[j].trim())?.[1];
+      }
+
+      if (specifier.startsWith(".") || specifier.startsWith("/")) {
+        if (importer) {
+          add({ file: importer, line: 1, column: 1, message: `Cannot find module '${specifier}'`, severity: vscode.DiagnosticSeverity.Error });
+        }
+      } else {
+        add({
+          file: "package.json",
+          line: 1,
+          column: 1,
+          message: `Cannot find module '${specifier}' — is it in dependencies (not devDependencies)?`,
+          severity: vscode.DiagnosticSeverity.Error,
+        });
+      }
+    }
+  }
+
+  return problems;
+}
+
+// ── Reporting ────────────────────────────────
+
+function problemKey(problem: DeployProblem): string {
+  return `${problem.file}:${problem.line}:${problem.column}:${problem.message}`;
+}
+
+function toDiagnostic(problem: DeployProblem): vscode.Diagnostic {
+  const position = new vscode.Position(Math.max(0, problem.line - 1), Math.max(0, problem.column - 1));
+  const diagnostic = new vscode.Diagnostic(new vscode.Range(position, position), problem.message, problem.severity);
+  diagnostic.source = "Build & Ship";
+  if (problem.code) { diagnostic.code = problem.code; }
+  return diagnostic;
+}
+
+function addToFile(byFile: ProblemsByFile, uri: vscode.Uri, diagnostic: vscode.Diagnostic): void {
+  const entry = byFile.get(uri.toString()) ?? { uri, diagnostics: [] };
+  entry.diagnostics.push(diagnostic);
+  byFile.set(uri.toString(), entry);
+}
+
+async function resolveProblemFile(project: string, root: string, file: string): Promise<vscode.Uri | undefined> {
+  if (!path.isAbsolute(file)) {
+    const local = path.join(root, file);
+    return fs.existsSync(local) ? vscode.Uri.file(local) : undefined;
+  }
+  return resolveContainerPath(project, file);
+}
+
+/**
+ * Replace a project's deploy problems with those found in its failed
+ * deploy's output — other projects' problems stay. Problems whose file
+ * can't be found locally are dropped. Returns the count.
+ */
+export async function reportDeployProblems(
+  project: string,
+  root: string,
+  output: string[],
+  error?: string
+): Promise<number> {
+  const lines = error ? [...output, ...error.split(/\r?\n/)] : output;
+  const problems = parseDeployOutput(lines);
+
+  const byFile: ProblemsByFile = new Map();
+  for (const problem of problems) {
+    const uri = await resolveProblemFile(project, root, problem.file);
+    if (uri) { addToFile(byFile, uri, toDiagnostic(problem)); }
+  }
+
+  problemsByProject.set(project, byFile);
+  publish();
+  return [...byFile.values()].reduce((count, entry) => count + entry.diagnostics.length, 0);
+}
+
+/**
+ * Add problems found in a batch of a project's container log lines —
+ * runtime crashes keep accumulating (each reported once) until the
+ * project's next successful deploy clears them.
+ */
+export async function reportRuntimeProblems(project: string, lines: string[]): Promise<void> {
+  const tail = [...(runtimeTail.get(project) ?? []), ...lines].slice(-RUNTIME_TAIL_LINES);
+  runtimeTail.set(project, tail);
+
+  const seen = runtimeSeen.get(project) ?? new Set<string>();
+  runtimeSeen.set(project, seen);
+  const fresh = parseDeployOutput(tail).filter((problem) => !seen.has(problemKey(problem)));
+  if (fresh.length === 0) { return; }
+  fresh.forEach((problem) => seen.add(problemKey(problem)));
+
+  const root = await projectFolder(project);
+  const found: { uri: vscode.Uri; problem: DeployProblem }[] = [];
+  for (const problem of fresh) {
+    const uri = root ? await resolveProblemFile(project, root, problem.file) : await resolveContainerPath(project, problem.file);
+    if (uri) { found.push({ uri, problem }); }
+  }
+  // Cleared by a successful deploy meanwhile
+  if (runtimeSeen.get(project) !== seen || found.length === 0) { return; }
+
+  const byFile = runtimeProblemsByProject.get(project) ?? new Map();
+  for (const { uri, problem } of found) {
+    addToFile(byFile, uri, toDiagnostic(problem));
+  }
+  runtimeProblemsByProject.set(project, byFile);
+  publish();
+}
+
+/** Drop one project's deploy and runtime problems (after it deploys successfully), or all of them */
+export function clearDeployProblems(project?: string): void {
+  for (const map of [problemsByProject, runtimeProblemsByProject, runtimeSeen, runtimeTail]) {
+    if (project === undefined) {
+      map.clear();
+    } else {
+      map.delete(project);
+    }
+  }
+  publish();
+}
+
+/** Rebuild the collection from every project's problems (several can point at one file) */
+function publish(): void {
+  const merged: ProblemsByFile = new Map();
+  for (const byFile of [...problemsByProject.values(), ...runtimeProblemsByProject.values()]) {
+    for (const [key, { uri, diagnostics }] of byFile) {
+      const entry = merged.get(key) ?? { uri, diagnostics: [] };
+      entry.diagnostics.push(...diagnostics);
+      merged.set(key, entry);
+    }
+  }
+
+  if (!collection) { return; }
+  collection.clear();
+  for (const { uri, diagnostics } of merged.values()) {
+    collection.set(uri, diagnostics);
+  }
+}
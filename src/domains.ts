@@ -0,0 +1,247 @@
+/**
+ * Custom domains — attach, detach and verify domains through `bs domains`.
+ *
+ * Adding a domain returns the DNS records the user has to create. DNS can
+ * take a while to propagate, so re-checks poll (cancellable progress) until
+ * the domain verifies, has a certificate and actually serves the project —
+ * as the CLI reports it, or else answering over HTTPS the same way the
+ * project's own URL does.
+ */
+
+import { createHash } from "crypto";
+import * as https from "https";
+import * as vscode from "vscode";
+import { addDomain, checkDomain, removeDomain, type DnsRecord, type DomainStatus } from "./cli.js";
+import { getDomains, getProjects, invalidate } from "./store.js";
+
+const POLL_INTERVAL_MS = 10000;
+const POLL_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** A fully qualified hostname (labels of up to 63 characters, a TLD of letters) */
+export const HOSTNAME = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i;
+
+/** Domains currently being polled, keyed "project/domain" */
+const activeChecks = new Set<string>();
+
+/** Verified and serving with a certificate */
+export function isDomainReady(status: DomainStatus): boolean {
+  return status.verified && status.tls === "active";
+}
+
+/** Records as tab-separated lines, ready to paste into a DNS provider */
+export function formatDnsRecords(records: DnsRecord[]): string {
+  return records.map((r) => `${r.type}\t${r.name}\t${r.value}`).join("\n");
+}
+
+/** Bytes of a response body compared when fingerprinting */
+const FINGERPRINT_BYTES = 64 * 1024;
+
+interface Fingerprint {
+  status: number;
+  /** sha256 of the start of the body */
+  hash: string;
+  title?: string;
+}
+
+/** Status, body hash and <title> of GET https://<host>/ — undefined if it doesn't answer */
+function fingerprint(url: URL, timeoutMs: number): Promise<Fingerprint | undefined> {
+  return new Promise((resolve) => {
+    const req = https.get({ host: url.hostname, port: url.port || undefined, path: "/", timeout: timeoutMs }, (res) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const done = () => {
+        const body = Buffer.concat(chunks).subarray(0, FINGERPRINT_BYTES);
+        resolve({
+          status: res.statusCode ?? 0,
+          hash: createHash("sha256").update(body).digest("hex"),
+          title: /<title[^>]*>([^<]*)<\/title>/i.exec(body.toString("utf8"))?.[1].trim() || undefined,
+        });
+      };
+      res.on("data", (chunk: Buffer) => {
+        chunks.push(chunk);
+        size += chunk.length;
+        if (size >= FINGERPRINT_BYTES) { res.destroy(); done(); }
+      });
+      res.on("end", done);
+      res.on("error", () => resolve(undefined));
+    });
+    req.on("timeout", () => req.destroy());
+    req.on("error", () => resolve(undefined));
+  });
+}
+
+/**
+ * True if the domain serves the project: the CLI says so, or the domain
+ * answers exactly like the project's public URL (same status and body, or
+ * same page title). A parked page or another site's default host doesn't.
+ */
+export async function isServing(projectName: string, status: DomainStatus, timeoutMs = 8000): Promise<boolean> {
+  if (status.serving !== undefined) { return status.serving; }
+
+  const project = (await getProjects().catch(() => [])).find((p) => p.name === projectName);
+  if (!project?.public_url) { return false; }
+
+  const [domain, live] = await Promise.all([
+    fingerprint(new URL(`https://${status.domain}`), timeoutMs),
+    fingerprint(new URL(project.public_url), timeoutMs),
+  ]);
+  if (!domain || !live || domain.status >= 500 || domain.status !== live.status) { return false; }
+  return domain.hash === live.hash || (!!domain.title && domain.title === live.title);
+}
+
+async function pickProject(placeHolder: string): Promise<string | undefined> {
+  const projects = await getProjects().catch(() => []);
+  const pick = await vscode.window.showQuickPick(
+    projects.map((p) => ({ label: p.name, description: p.status })),
+    { placeHolder }
+  );
+  return pick?.label;
+}
+
+/**
+ * Poll a domain until it verifies, gets a certificate and serves, the
+ * timeout passes or the user cancels. `onUpdate` sees every intermediate
+ * status. Resolves with the last status (undefined if a poll for it was
+ * already running).
+ */
+export async function pollDomain(
+  projectName: string,
+  domain: string,
+  onUpdate?: (status: DomainStatus, serving: boolean) => void
+): Promise<DomainStatus | undefined> {
+  const key = `${projectName}/${domain}`;
+  if (activeChecks.has(key)) { return undefined; }
+  activeChecks.add(key);
+
+  try {
+    return await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `Checking ${domain}`, cancellable: true },
+      async (progress, token) => {
+        const deadline = Date.now() + POLL_TIMEOUT_MS;
+        let status: DomainStatus | undefined;
+
+        while (true) {
+          try {
+            status = await checkDomain(projectName, domain);
+          } catch (err: any) {
+            status = { domain, verified: false, tls: "error", error: err.message };
+          }
+
+          const serving = isDomainReady(status) && await isServing(projectName, status);
+          onUpdate?.(status, serving);
+
+          if (serving) {
+            vscode.window.setStatusBarMessage(`$(check) ${domain} is live`, 8000);
+            return status;
+          }
+          if (token.isCancellationRequested) {
+            return status;
+          }
+          if (Date.now() > deadline) {
+            vscode.window.setStatusBarMessage(`$(warning) ${domain} isn't resolving yet — DNS can take a while`, 8000);
+            return status;
+          }
+
+          progress.report({
+            message: !status.verified ? "waiting for DNS" : status.tls !== "active" ? "issuing certificate" : "waiting for it to answer",
+          });
+          await new Promise<void>((resolve) => {
+            const timer = setTimeout(done, POLL_INTERVAL_MS);
+            const cancelled = token.onCancellationRequested(done);
+            function done() {
+              clearTimeout(timer);
+              cancelled.dispose();
+              resolve();
+            }
+          });
+          if (token.isCancellationRequested) {
+            return status;
+          }
+        }
+      }
+    );
+  } finally {
+    activeChecks.delete(key);
+    invalidate(projectName);
+  }
+}
+
+/** Show the records still needed for a domain, with copy + check actions */
+async function showDnsRecords(projectName: string, status: DomainStatus): Promise<void> {
+  const records = status.records ?? [];
+  const summary = records.map((r) => `${r.type} ${r.name} → ${r.value}`).join(", ");
+
+  const action = await vscode.window.showInformationMessage(
+    records.length
+      ? `Build & Ship: Point ${status.domain} at ${projectName} — create ${summary}`
+      : `Build & Ship: ${status.domain} added to ${projectName}.`,
+    ...(records.length ? ["Copy Records"] : []),
+    "Check Now"
+  );
+
+  if (action === "Copy Records") {
+    await vscode.env.clipboard.writeText(formatDnsRecords(records));
+    vscode.window.setStatusBarMessage("$(check) DNS records copied", 4000);
+  }
+  if (action === "Check Now" || action === "Copy Records") {
+    void pollDomain(projectName, status.domain);
+  }
+}
+
+/** Prompt for and attach a domain. Resolves with its status once added. */
+export async function addCustomDomain(projectName?: string): Promise<DomainStatus | undefined> {
+  projectName ??= await pickProject("Add a domain to which project?");
+  if (!projectName) { return undefined; }
+
+  const domain = await vscode.window.showInputBox({
+    title: `Custom domain for ${projectName}`,
+    placeHolder: "app.example.com",
+    validateInput: (value) => HOSTNAME.test(value.trim()) ? undefined : "Enter a hostname like app.example.com",
+  });
+  if (!domain) { return undefined; }
+
+  let status: DomainStatus;
+  try {
+    status = await addDomain(projectName, domain.trim().toLowerCase());
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't add ${domain}. ${err.message}`);
+    return undefined;
+  }
+  invalidate(projectName);
+
+  void showDnsRecords(projectName, status);
+  return status;
+}
+
+/** Confirm and detach a domain. Resolves true if removed. */
+export async function removeCustomDomain(projectName?: string, domain?: string): Promise<boolean> {
+  projectName ??= await pickProject("Remove a domain from which project?");
+  if (!projectName) { return false; }
+
+  if (!domain) {
+    const domains = await getDomains(projectName).catch(() => []);
+    if (domains.length === 0) {
+      vscode.window.showInformationMessage(`Build & Ship: ${projectName} has no custom domains.`);
+      return false;
+    }
+    domain = await vscode.window.showQuickPick(domains.map((d) => d.domain), { placeHolder: "Remove which domain?" });
+    if (!domain) { return false; }
+  }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Remove ${domain} from ${projectName}?`,
+    { modal: true, detail: "The domain stops serving this project. Your DNS records are left as they are." },
+    "Remove"
+  );
+  if (confirm !== "Remove") { return false; }
+
+  try {
+    await removeDomain(projectName, domain);
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't remove ${domain}. ${err.message}`);
+    return false;
+  }
+  invalidate(projectName);
+  vscode.window.setStatusBarMessage(`$(check) ${domain} removed from ${projectName}`, 4000);
+  return true;
+}
@@ -0,0 +1,286 @@
+/**
+ * Environment manager — view and change the variables a deployed project
+ * runs with, through `bs env`.
+ *
+ * Secrets (flagged by the CLI, or with a secret-looking name) are masked
+ * everywhere by default. Changes only reach the container on restart, so
+ * every edit ends with an offer to restart through the normal restart path.
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { setEnv, unsetEnv, type EnvVar } from "./cli.js";
+import { getEnv, getProjects, invalidate } from "./store.js";
+
+/** Names that usually hold credentials */
+const SECRET_KEY = /SECRET|TOKEN|PASSWORD|PASSWD|PRIVATE|CREDENTIAL|API_?KEY|ACCESS_?KEY|AUTH|DSN|DATABASE_URL|_KEY$/i;
+
+const VALID_KEY = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export const MASK = "••••••••";
+
+/** True if a variable's value should be hidden by default */
+export function isSecret(v: Pick<EnvVar, "key" | "secret">): boolean {
+  return v.secret ?? SECRET_KEY.test(v.key);
+}
+
+/** Value as shown in lists — fixed-length mask so length doesn't leak */
+export function displayValue(v: EnvVar): string {
+  return isSecret(v) ? MASK : v.value;
+}
+
+/**
+ * Parse a .env file. Supports comments, `export KEY=…`, single quotes
+ * (literal), double quotes (\n escapes, multi-line) and inline comments
+ * after unquoted values.
+ */
+export function parseDotEnv(text: string): Record<string, string> {
+  const vars: Record<string, string> = {};
+  const lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*(.*)$/.exec(lines[i]);
+    if (!match) { continue; }
+    const key = match[1];
+    let value = match[2];
+
+    const quote = value[0];
+    if (quote === '"' || quote === "'") {
+      // Quoted values may span lines until the closing quote
+      let body = value.slice(1);
+      while (!new RegExp(`(^|[^\\\\])${quote}\\s*(#.*)?$`).test(body) && i + 1 < lines.length) {
+        body += "\n" + lines[++i];
+      }
+      body = body.replace(new RegExp(`${quote}\\s*(#.*)?$`), "");
+      value = quote === '"'
+        ? body.replace(/\\n/g, "\n").replace(/\\r/g, "\r").replace(/\\t/g, "\t").replace(/\\"/g, '"')
+        : body;
+    } else {
+      value = value.replace(/\s+#.*$/, "").trim();
+    }
+
+    vars[key] = value;
+  }
+
+  return vars;
+}
+
+/** Offer to restart so the container picks up the new environment */
+export async function offerRestart(projectName: string): Promise<void> {
+  const action = await vscode.window.showInformationMessage(
+    `Build & Ship: ${projectName}'s environment changed. It applies on the next restart.`,
+    "Restart Now"
+  );
+  if (action === "Restart Now") {
+    await vscode.commands.executeCommand("buildandship.restart", projectName);
+  }
+}
+
+async function pickProject(placeHolder: string): Promise<string | undefined> {
+  const projects = await getProjects().catch(() => []);
+  const pick = await vscode.window.showQuickPick(
+    projects.map((p) => ({ label: p.name, description: p.status })),
+    { placeHolder }
+  );
+  return pick?.label;
+}
+
+async function loadEnv(projectName: string): Promise<EnvVar[] | undefined> {
+  try {
+    // Edits start from what's really there, not a cached copy
+    return await getEnv(projectName, { fresh: true });
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't load the environment for ${projectName}. ${err.message}`);
+    return undefined;
+  }
+}
+
+function validateKey(existing: EnvVar[]) {
+  return (key: string): string | undefined => {
+    if (!VALID_KEY.test(key)) { return "Letters, digits and underscores only, not starting with a digit"; }
+    if (existing.some((v) => v.key === key)) { return `${key} already exists — edit it instead`; }
+    return undefined;
+  };
+}
+
+/** Prompt for a new variable and set it. Resolves true if something changed. */
+export async function addEnvVar(projectName: string): Promise<boolean> {
+  const existing = await loadEnv(projectName);
+  if (!existing) { return false; }
+
+  const key = await vscode.window.showInputBox({
+    title: `New variable for ${projectName}`,
+    prompt: "Name",
+    placeHolder: "DATABASE_URL",
+    validateInput: validateKey(existing),
+  });
+  if (!key) { return false; }
+
+  const value = await vscode.window.showInputBox({
+    title: `${key} for ${projectName}`,
+    prompt: "Value",
+    password: isSecret({ key }),
+  });
+  if (value === undefined) { return false; }
+
+  return applyEnv(projectName, () => setEnv(projectName, { [key]: value }), `${key} added`);
+}
+
+/** Prompt for a new value of an existing variable. Resolves true if changed. */
+export async function editEnvVar(projectName: string, key: string): Promise<boolean> {
+  const existing = await loadEnv(projectName);
+  if (!existing) { return false; }
+  const current = existing.find((v) => v.key === key);
+
+  const value = await vscode.window.showInputBox({
+    title: `${key} for ${projectName}`,
+    prompt: "New value",
+    value: current?.value,
+    password: current ? isSecret(current) : isSecret({ key }),
+  });
+  if (value === undefined || value === current?.value) { return false; }
+
+  return applyEnv(projectName, () => setEnv(projectName, { [key]: value }), `${key} updated`);
+}
+
+/** Confirm and remove a variable. Resolves true if removed. */
+export async function removeEnvVar(projectName: string, key: string): Promise<boolean> {
+  const confirm = await vscode.window.showWarningMessage(
+    `Remove ${key} from ${projectName}?`,
+    { modal: true, detail: "The running container keeps it until the next restart." },
+    "Remove"
+  );
+  if (confirm !== "Remove") { return false; }
+
+  return applyEnv(projectName, () => unsetEnv(projectName, [key]), `${key} removed`);
+}
+
+/**
+ * Import variables from a workspace .env file. Shows what will be added
+ * or overwritten (values masked) and lets the user untick entries.
+ */
+export async function importDotEnv(projectName?: string, file?: vscode.Uri): Promise<boolean> {
+  projectName ??= await pickProject("Import variables into which project?");
+  if (!projectName) { return false; }
+
+  if (!file) {
+    const candidates = await vscode.workspace.findFiles("**/.env*", "**/node_modules/**", 50);
+    const envFiles = candidates.filter((uri) => !/\.(example|sample|template)$/.test(uri.fsPath));
+    if (envFiles.length === 0) {
+      vscode.window.showInformationMessage("Build & Ship: No .env files in this workspace.");
+      return false;
+    }
+    const pick = await vscode.window.showQuickPick(
+      envFiles.map((uri) => ({ label: path.basename(uri.fsPath), description: vscode.workspace.asRelativePath(uri), uri })),
+      { placeHolder: "Import which file?" }
+    );
+    if (!pick) { return false; }
+    file = pick.uri;
+  }
+
+  const text = Buffer.from(await vscode.workspace.fs.readFile(file)).toString("utf8");
+  const parsed = parseDotEnv(text);
+  const existing = await loadEnv(projectName);
+  if (!existing) { return false; }
+
+  // .env files allow names the CLI doesn't (dots, dashes) — leave those out, and say so
+  const skipped = Object.keys(parsed).filter((key) => !VALID_KEY.test(key));
+  if (skipped.length > 0) {
+    vscode.window.showWarningMessage(
+      `Build & Ship: Skipped ${skipped.length} variable${skipped.length === 1 ? "" : "s"} with invalid names: ${skipped.join(", ")}. Use letters, digits and underscores, not starting with a digit.`
+    );
+  }
+
+  const current = new Map(existing.map((v) => [v.key, v.value]));
+  const items = Object.entries(parsed)
+    .filter(([key, value]) => VALID_KEY.test(key) && current.get(key) !== value)
+    .map(([key, value]) => ({
+      label: key,
+      description: isSecret({ key }) ? MASK : value,
+      detail: current.has(key) ? "Overwrites the current value" : undefined,
+      picked: true,
+      key,
+      value,
+    }));
+
+  if (items.length === 0) {
+    if (skipped.length === 0) {
+      vscode.window.showInformationMessage(`Build & Ship: ${projectName} already matches ${path.basename(file.fsPath)}.`);
+    }
+    return false;
+  }
+
+  const chosen = await vscode.window.showQuickPick(items, {
+    canPickMany: true,
+    placeHolder: `Import into ${projectName} — untick anything you'd rather keep local`,
+  });
+  if (!chosen || chosen.length === 0) { return false; }
+
+  const vars = Object.fromEntries(chosen.map((item) => [item.key, item.value]));
+  return applyEnv(
+    projectName,
+    () => setEnv(projectName!, vars),
+    `${chosen.length} variable${chosen.length === 1 ? "" : "s"} imported`
+  );
+}
+
+/** Browse a project's variables from the command palette */
+export async function manageEnv(projectName?: string): Promise<boolean> {
+  projectName ??= await pickProject("Manage environment for which project?");
+  if (!projectName) { return false; }
+
+  const vars = await loadEnv(projectName);
+  if (!vars) { return false; }
+
+  type Item = vscode.QuickPickItem & { action?: "add" | "import"; key?: string };
+  const items: Item[] = [
+    { label: "$(add) Add Variable", action: "add" },
+    { label: "$(cloud-upload) Import from .env…", action: "import" },
+  ];
+  if (vars.length > 0) {
+    items.push({ label: "Variables", kind: vscode.QuickPickItemKind.Separator });
+    for (const v of [...vars].sort((a, b) => a.key.localeCompare(b.key))) {
+      items.push({ label: v.key, description: displayValue(v), key: v.key });
+    }
+  }
+
+  const pick = await vscode.window.showQuickPick(items, {
+    placeHolder: vars.length ? `${projectName} — ${vars.length} variable${vars.length === 1 ? "" : "s"}` : `${projectName} has no variables yet`,
+  });
+  if (!pick) { return false; }
+
+  if (pick.action === "add") { return addEnvVar(projectName); }
+  if (pick.action === "import") { return importDotEnv(projectName); }
+  if (!pick.key) { return false; }
+
+  const action = await vscode.window.showQuickPick(["Edit Value", "Copy Value", "Remove"], { placeHolder: pick.key });
+  switch (action) {
+    case "Edit Value":
+      return editEnvVar(projectName, pick.key);
+    case "Copy Value": {
+      const value = vars.find((v) => v.key === pick.key)?.value ?? "";
+      await vscode.env.clipboard.writeText(value);
+      vscode.window.showInformationMessage(`Build & Ship: ${pick.key} copied to clipboard.`);
+      return false;
+    }
+    case "Remove":
+      return removeEnvVar(projectName, pick.key);
+    default:
+      return false;
+  }
+}
+
+async function applyEnv(projectName: string, change: () => Promise<void>, done: string): Promise<boolean> {
+  try {
+    await change();
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't update ${projectName}'s environment. ${err.message}`);
+    return false;
+  } finally {
+    invalidate(projectName);
+  }
+  vscode.window.setStatusBarMessage(`$(check) ${projectName}: ${done}`, 4000);
+  // Don't hold the caller (and its refresh) on the restart prompt
+  void offerRestart(projectName);
+  return true;
+}
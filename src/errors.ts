@@ -0,0 +1,203 @@
+/**
+ * CLI errors — every failed `bs` call rejects with a BsCliError subclass
+ * saying what went wrong, with the command, exit code and stderr attached.
+ *
+ *   BsCliError (kind "unknown")
+ *   ├─ CliNotInstalledError      bs isn't on the PATH / cliPath
+ *   ├─ NotAuthenticatedError     not signed in
+ *   │  └─ TokenExpiredError      signed in once, session expired
+ *   ├─ ProjectNotFoundError      no project by that name
+ *   ├─ DockerNotRunningError     the daemon is down
+ *   ├─ CliTimeoutError           killed after the call's time limit
+ *   └─ CliParseError             --json output that isn't JSON
+ *
+ * ERROR_HELP turns each kind into words and recovery actions for the
+ * error pages in welcome.ts and panel.ts.
+ */
+
+import type { ExecFileException } from "child_process";
+
+export type BsErrorKind =
+  | "notInstalled"
+  | "notAuthenticated"
+  | "tokenExpired"
+  | "projectNotFound"
+  | "dockerNotRunning"
+  | "timeout"
+  | "parse"
+  | "unknown";
+
+export interface BsCliErrorDetails {
+  /** The command as typed, e.g. "bs status my-app --json" */
+  command: string;
+  /** Process exit code — null if it never ran or was killed */
+  exitCode: number | null;
+  stderr: string;
+}
+
+export class BsCliError extends Error {
+  readonly kind: BsErrorKind = "unknown";
+  readonly command: string;
+  readonly exitCode: number | null;
+  readonly stderr: string;
+
+  constructor(message: string, details: BsCliErrorDetails) {
+    super(message);
+    this.name = new.target.name;
+    this.command = details.command;
+    this.exitCode = details.exitCode;
+    this.stderr = details.stderr;
+  }
+}
+
+export class CliNotInstalledError extends BsCliError {
+  override readonly kind: BsErrorKind = "notInstalled";
+}
+
+export class NotAuthenticatedError extends BsCliError {
+  override readonly kind: BsErrorKind = "notAuthenticated";
+}
+
+export class TokenExpiredError extends NotAuthenticatedError {
+  override readonly kind: BsErrorKind = "tokenExpired";
+}
+
+export class ProjectNotFoundError extends BsCliError {
+  override readonly kind: BsErrorKind = "projectNotFound";
+}
+
+export class DockerNotRunningError extends BsCliError {
+  override readonly kind: BsErrorKind = "dockerNotRunning";
+}
+
+export class CliTimeoutError extends BsCliError {
+  override readonly kind: BsErrorKind = "timeout";
+
+  constructor(message: string, details: BsCliErrorDetails, readonly timeoutMs: number) {
+    super(message, details);
+  }
+}
+
+export class CliParseError extends BsCliError {
+  override readonly kind: BsErrorKind = "parse";
+
+  constructor(message: string, details: BsCliErrorDetails, readonly stdout: string) {
+    super(message, details);
+  }
+}
+
+// ── Classification ──────────────────────────────────────────────────
+
+const TOKEN_EXPIRED = /token (?:has )?expired|session (?:has )?expired|expired token|re-?authenticate/i;
+const NOT_AUTHENTICATED = /not logged in|not signed in|unauthori[sz]ed|\b401\b|run `?bs login/i;
+const PROJECT_NOT_FOUND = /project\b.*\bnot found|no such project|unknown project|project .* does(?:n't| not) exist/i;
+const DOCKER_DOWN = /docker daemon|cannot connect to the docker|docker\.sock|docker (?:is not|isn't) running|docker desktop is not running/i;
+
+/** Turn a failed execFile call into the matching BsCliError */
+export function toCliError(
+  cli: string,
+  args: string[],
+  error: ExecFileException,
+  stderr: string,
+  timeoutMs: number
+): BsCliError {
+  const command = `${cli} ${args.join(" ")}`;
+  const text = stderr.trim();
+  const exitCode = typeof error.code === "number" ? error.code : null;
+  const details: BsCliErrorDetails = { command, exitCode, stderr: text };
+  // Keeps the "bs <args>: <reason>" shape messages have always had
+  const message = `bs ${args.join(" ")}: ${text || error.message}`;
+
+  if (error.code === "ENOENT") {
+    return new CliNotInstalledError(`bs ${args.join(" ")}: ${cli} not found — is the Build & Ship CLI installed?`, details);
+  }
+  if (error.killed && error.signal === "SIGTERM") {
+    return new CliTimeoutError(`bs ${args.join(" ")}: timed out after ${Math.round(timeoutMs / 1000)}s`, details, timeoutMs);
+  }
+  return classify(message, details);
+}
+
+/** Turn a failure reported by the CLI daemon (see rpc.ts) into the matching BsCliError */
+export function fromDaemonError(command: string, message: string, exitCode: number | null, stderr: string): BsCliError {
+  return classify(message, { command, exitCode, stderr: stderr.trim() || message });
+}
+
+/** Pick the error class from what the CLI printed */
+function classify(message: string, details: BsCliErrorDetails): BsCliError {
+  const text = details.stderr;
+  if (TOKEN_EXPIRED.test(text)) { return new TokenExpiredError(message, details); }
+  if (NOT_AUTHENTICATED.test(text)) { return new NotAuthenticatedError(message, details); }
+  if (DOCKER_DOWN.test(text)) { return new DockerNotRunningError(message, details); }
+  if (PROJECT_NOT_FOUND.test(text)) { return new ProjectNotFoundError(message, details); }
+  return new BsCliError(message, details);
+}
+
+// ── Recovery ────────────────────────────────────────────────────────
+
+/** A button on an error page — runs one of our commands */
+export interface RecoveryAction {
+  label: string;
+  command: string;
+}
+
+export interface ErrorHelp {
+  title: string;
+  hint: string;
+  actions: RecoveryAction[];
+}
+
+const TRY_AGAIN: RecoveryAction = { label: "Try Again", command: "buildandship.refresh" };
+
+/** What to say and offer for each kind of failure */
+export const ERROR_HELP: Record<BsErrorKind, ErrorHelp> = {
+  notInstalled: {
+    title: "The CLI went missing",
+    hint: "We can't find the bs command. Install it (or point buildandship.cliPath at it) and we're back in business.",
+    actions: [{ label: "Install the CLI", command: "buildandship.installCli" }, TRY_AGAIN],
+  },
+  notAuthenticated: {
+    title: "You're signed out",
+    hint: "The CLI doesn't know who you are. Sign in with GitHub and everything comes back.",
+    actions: [{ label: "Sign In", command: "buildandship.login" }],
+  },
+  tokenExpired: {
+    title: "Your session expired",
+    hint: "Tokens don't live forever. Sign in again — your projects are right where you left them.",
+    actions: [{ label: "Sign In Again", command: "buildandship.login" }],
+  },
+  projectNotFound: {
+    title: "That project is gone",
+    hint: "It may have been destroyed or renamed. Refresh to see what's there now, or bind this folder to another project.",
+    actions: [TRY_AGAIN, { label: "Select Project", command: "buildandship.selectProject" }],
+  },
+  dockerNotRunning: {
+    title: "Docker is taking a nap",
+    hint: "Your projects run in Docker, and the daemon isn't answering. Start it and try again.",
+    actions: [{ label: "Start Docker", command: "buildandship.startDocker" }, TRY_AGAIN],
+  },
+  timeout: {
+    title: "The CLI didn't answer",
+    hint: "It took too long to respond — the machine may be busy or the network slow.",
+    actions: [TRY_AGAIN],
+  },
+  parse: {
+    title: "The CLI spoke in riddles",
+    hint: "Its output wasn't the JSON we expected. An older CLI is the usual suspect — updating fixes it.",
+    actions: [{ label: "Update the CLI", command: "buildandship.installCli" }, TRY_AGAIN],
+  },
+  unknown: {
+    title: "Dashboard hit a wall",
+    hint: "Make sure the bs CLI is installed and you're signed in. We can't show you cool stuff without it.",
+    actions: [TRY_AGAIN],
+  },
+};
+
+/** Commands an error page may run — anything else from a webview is ignored */
+export const RECOVERY_COMMANDS = new Set(
+  Object.values(ERROR_HELP).flatMap((help) => help.actions.map((a) => a.command))
+);
+
+/** Help for any thrown value (non-CLI errors count as unknown) */
+export function errorHelp(err: unknown): ErrorHelp {
+  return ERROR_HELP[err instanceof BsCliError ? err.kind : "unknown"];
+}
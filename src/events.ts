@@ -0,0 +1,139 @@
+/**
+ * Event bus — typed events for deploys and project state, built on
+ * vscode.EventEmitter so any number of listeners can subscribe.
+ *
+ * The modules that own each event fire it through `emit`; everyone else
+ * (our views, and other extensions through the value `activate()`
+ * returns) subscribes to `events.on…`.
+ *
+ *   const bs = vscode.extensions.getExtension("BuildandShipIT.buildandship")?.exports;
+ *   bs?.events.onDeploySucceeded((e) => console.log(`${e.project} → ${e.url}`));
+ */
+
+import * as vscode from "vscode";
+import type { DeployPhase, ListProject } from "./cli.js";
+
+/** Fields every deploy event carries */
+export interface DeployEventBase {
+  /** Project name — the folder's binding until the CLI reports the real one */
+  project: string;
+  /** Folder being deployed */
+  folder: vscode.Uri;
+  /** Preview name, for preview deploys (see previews.ts) */
+  preview?: string;
+  /** One of several services deployed together */
+  grouped: boolean;
+}
+
+export interface DeployStartedEvent extends DeployEventBase {
+  /** Started by watch mode or the API — nothing will prompt */
+  unattended: boolean;
+}
+
+export interface DeployProgressEvent extends DeployEventBase {
+  /** CLI phase — undefined while checks run or before the first phase */
+  phase?: DeployPhase;
+  /** What's happening, in words ("Running checks", "Building image", …) */
+  label: string;
+}
+
+export interface DeploySucceededEvent extends DeployEventBase {
+  /** Public URL — undefined when no tunnel is up */
+  url?: string;
+  deployId?: string;
+  durationMs: number;
+}
+
+export interface DeployFailedEvent extends DeployEventBase {
+  error: string;
+  exitCode: number | null;
+  /** Problems pinned to the code (see diagnostics.ts) */
+  problems: number;
+  durationMs: number;
+}
+
+export interface DeployCancelledEvent extends DeployEventBase {
+  /** Stopped during pre-deploy checks, before `bs deploy` ran */
+  beforeStart: boolean;
+}
+
+/** How a deploy ended — the matching event, tagged */
+export type DeployOutcome =
+  | ({ status: "live" } & DeploySucceededEvent)
+  | ({ status: "failed" } & DeployFailedEvent)
+  | ({ status: "cancelled" } & DeployCancelledEvent);
+
+export interface ProjectStateEvent {
+  project: string;
+  /** New status — undefined once the project is gone */
+  status?: string;
+  /** Status before — undefined for a project seen for the first time */
+  previous?: string;
+}
+
+/** Everything there is to subscribe to */
+export interface BuildAndShipEvents {
+  readonly onDeployStarted: vscode.Event<DeployStartedEvent>;
+  readonly onDeployProgress: vscode.Event<DeployProgressEvent>;
+  readonly onDeploySucceeded: vscode.Event<DeploySucceededEvent>;
+  readonly onDeployFailed: vscode.Event<DeployFailedEvent>;
+  readonly onDeployCancelled: vscode.Event<DeployCancelledEvent>;
+  readonly onProjectStateChanged: vscode.Event<ProjectStateEvent>;
+}
+
+const _onDeployStarted = new vscode.EventEmitter<DeployStartedEvent>();
+const _onDeployProgress = new vscode.EventEmitter<DeployProgressEvent>();
+const _onDeploySucceeded = new vscode.EventEmitter<DeploySucceededEvent>();
+const _onDeployFailed = new vscode.EventEmitter<DeployFailedEvent>();
+const _onDeployCancelled = new vscode.EventEmitter<DeployCancelledEvent>();
+const _onProjectStateChanged = new vscode.EventEmitter<ProjectStateEvent>();
+
+export const events: BuildAndShipEvents = {
+  onDeployStarted: _onDeployStarted.event,
+  onDeployProgress: _onDeployProgress.event,
+  onDeploySucceeded: _onDeploySucceeded.event,
+  onDeployFailed: _onDeployFailed.event,
+  onDeployCancelled: _onDeployCancelled.event,
+  onProjectStateChanged: _onProjectStateChanged.event,
+};
+
+/** Fire an event — for the module that owns it */
+export const emit = {
+  deployStarted: (e: DeployStartedEvent) => _onDeployStarted.fire(e),
+  deployProgress: (e: DeployProgressEvent) => _onDeployProgress.fire(e),
+  deploySucceeded: (e: DeploySucceededEvent) => _onDeploySucceeded.fire(e),
+  deployFailed: (e: DeployFailedEvent) => _onDeployFailed.fire(e),
+  deployCancelled: (e: DeployCancelledEvent) => _onDeployCancelled.fire(e),
+};
+
+/** Last status seen per project (undefined until the first project list) */
+let knownStatus: Map<string, string> | undefined;
+
+/**
+ * Compare a fresh project list with the last one and fire
+ * onProjectStateChanged for every project whose status moved. The first
+ * list only sets the baseline.
+ */
+export function reportProjectStates(projects: ListProject[]): void {
+  const next = new Map(projects.map((p) => [p.name, p.status]));
+  const previous = knownStatus;
+  knownStatus = next;
+  if (!previous) { return; }
+
+  for (const [project, status] of next) {
+    if (previous.get(project) !== status) {
+      _onProjectStateChanged.fire({ project, status, previous: previous.get(project) });
+    }
+  }
+  for (const [project, status] of previous) {
+    if (!next.has(project)) {
+      _onProjectStateChanged.fire({ project, previous: status });
+    }
+  }
+}
+
+/** Dispose every emitter (call from activate via context.subscriptions) */
+export function disposeEvents(): void {
+  [_onDeployStarted, _onDeployProgress, _onDeploySucceeded, _onDeployFailed, _onDeployCancelled, _onProjectStateChanged]
+    .forEach((emitter) => emitter.dispose());
+}
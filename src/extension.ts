@@ -7,42 +7,133 @@
  *   1. No CLI installed → Install it for the user
  *   2. CLI installed, not logged in → GitHub sign-in
  *   3. Logged in → Projects list + Deploy button
+ *
+ * Once logged in, a native "Projects" tree view sits below it for
+ * keyboard and screen reader users.
+ *
+ * activate() returns a versioned API (see api.ts) so other extensions
+ * can deploy, read project state and react to deploy events.
  */
 
 import * as vscode from "vscode";
 import { checkAuth, login, logout, onAuthChange } from "./auth.js";
-import { deploy, init, link, viewLogs, stop, restart, destroy, onDeploySuccess, onDeployFailure } from "./deploy.js";
+import { deploy, init, link, viewLogs, stop, restart, destroy, rollback, cancelDeploy, showDeployOutput, trackedDeploys } from "./deploy.js";
+import { events, disposeEvents } from "./events.js";
+import { createApi, type BuildAndShipApi } from "./api.js";
 import { createStatusBar, updateStatusBar, disposeStatusBar } from "./statusbar.js";
+import { manageEnv, importDotEnv } from "./env.js";
+import { addCustomDomain, removeCustomDomain } from "./domains.js";
 import { WelcomeViewProvider } from "./welcome.js";
-import { showPanel } from "./panel.js";
+import { ProjectTreeProvider } from "./sidebar.js";
+import { DeployTreeProvider } from "./deploysView.js";
+import { initFolders } from "./folders.js";
+import { initBindings, onBindingChange, selectProject } from "./binding.js";
+import { initServices, updateServicesContext, deployServices } from "./services.js";
+import { deployPreview, promotePreview, cleanUpPreviews } from "./previews.js";
+import { startWatch, stopWatch } from "./watch.js";
+import { startDocker } from "./checks.js";
+import { initStore, invalidate } from "./store.js";
+import { initDaemon } from "./rpc.js";
+import { initDiagnostics } from "./diagnostics.js";
+import { detectCapabilities, initCapabilities, requireCapability } from "./capabilities.js";
+import { initInstaller, installCli, checkForCliUpdate, autoCheckForCliUpdate } from "./installer.js";
+import { showPanel, setPanelDeployProgress, markPanelDeployCancelled } from "./panel.js";
 
 let welcomeProvider: WelcomeViewProvider;
+let projectTree: ProjectTreeProvider;
+
+/** Point both webview banners at the newest deploy still running, if any */
+function showRunningDeploy(): void {
+  const latest = trackedDeploys().filter((d) => d.state !== "queued").pop();
+  const progress = latest ? { project: latest.project, phase: latest.phase, label: latest.label } : undefined;
+  welcomeProvider.setDeployProgress(progress);
+  setPanelDeployProgress(progress);
+}
 
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+export async function activate(context: vscode.ExtensionContext): Promise<BuildAndShipApi> {
   console.log("[Build & Ship] Extension activating...");
 
+  initFolders(context);
+  initBindings(context);
+  initServices(context);
+  initStore(context);
+  initDaemon(context);
+  initDiagnostics(context);
+  initInstaller(context);
+  void initCapabilities(context).then(() => autoCheckForCliUpdate());
+
   // ── Main Webview (handles ALL states) ───────────────────────────
   welcomeProvider = new WelcomeViewProvider(context.extensionUri);
   context.subscriptions.push(
     vscode.window.registerWebviewViewProvider(WelcomeViewProvider.viewType, welcomeProvider)
   );
 
-  // ── Deploy success → confetti celebration! ─────────────────────
-  onDeploySuccess((projectName, publicUrl) => {
-    welcomeProvider.celebrate(projectName, publicUrl);
-    welcomeProvider.refresh();
-    updateStatusBar();
-  });
+  // ── Native project tree ─────────────────────────────────────────
+  projectTree = new ProjectTreeProvider();
+  context.subscriptions.push(
+    projectTree,
+    vscode.window.createTreeView("buildandship.projects", {
+      treeDataProvider: projectTree,
+      showCollapseAll: true,
+    })
+  );
 
-  // ── Deploy failure → refresh sidebar to show failed status ────
-  onDeployFailure(() => {
-    welcomeProvider.refresh();
-    updateStatusBar();
-  });
+  // ── Deploys in flight ───────────────────────────────────────────
+  const deployTree = new DeployTreeProvider();
+  context.subscriptions.push(
+    deployTree,
+    vscode.window.createTreeView("buildandship.deploys", { treeDataProvider: deployTree })
+  );
+
+  // Group deploys report through their own status bar item and the
+  // Deploy Services command refreshes once they're done — the handlers
+  // below only follow single deploys.
+  context.subscriptions.push(
+    { dispose: disposeEvents },
+
+    // ── Deploy phases → progress banners in both webviews ─────────
+    events.onDeployProgress((e) => {
+      if (e.grouped) { return; }
+      welcomeProvider.setDeployProgress({ project: e.project, phase: e.phase, label: e.label });
+      setPanelDeployProgress({ project: e.project, phase: e.phase, label: e.label });
+    }),
+
+    // ── Deploy success → confetti celebration! ─────────────────────
+    events.onDeploySucceeded((e) => {
+      if (e.grouped) { return; }
+      showRunningDeploy();
+      if (e.url) {
+        welcomeProvider.celebrate(e.project, e.url);
+      }
+      invalidate(e.project);
+    }),
+
+    // ── Deploy failure → refresh sidebar to show failed status ────
+    events.onDeployFailed((e) => {
+      if (e.grouped) { return; }
+      showRunningDeploy();
+      invalidate(e.project);
+    }),
+
+    // ── Deploy cancelled → mark it in both webviews ──────────────
+    events.onDeployCancelled((e) => {
+      if (e.grouped) { return; }
+      if (trackedDeploys().some((d) => d.state !== "queued")) {
+        showRunningDeploy();
+      } else {
+        welcomeProvider.markDeployCancelled(e.project);
+        markPanelDeployCancelled(e.project);
+      }
+      invalidate(e.project);
+    })
+  );
 
   // ── Status Bar ──────────────────────────────────────────────────
   const statusBar = createStatusBar();
-  context.subscriptions.push(statusBar);
+  context.subscriptions.push(
+    statusBar,
+    vscode.workspace.onDidChangeWorkspaceFolders(() => updateStatusBar())
+  );
 
   // ── Register Commands ───────────────────────────────────────────
 
@@ -50,42 +141,70 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
   context.subscriptions.push(
     vscode.commands.registerCommand("buildandship.login", async () => {
       await login();
-      welcomeProvider.refresh();
-      updateStatusBar();
+      invalidate();
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand("buildandship.logout", async () => {
       await logout();
-      welcomeProvider.refresh();
+      invalidate();
     })
   );
 
   // Deploy
   context.subscriptions.push(
-    vscode.commands.registerCommand("buildandship.deploy", async () => {
-      await deploy();
-      // Refresh after deploy terminal closes
-      setTimeout(() => {
-        welcomeProvider.refresh();
-        updateStatusBar();
-      }, 3000);
+    vscode.commands.registerCommand("buildandship.deploy", async (folderUri?: unknown) => {
+      // Resolves once the deploy process exits; success/failure handlers refresh the UI
+      await deploy(folderUri instanceof vscode.Uri ? folderUri : undefined);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.deployServices", async () => {
+      const results = await deployServices();
+      if (results) {
+        invalidate();
+      }
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.cancelDeploy", (itemOrName?: any) => {
+      // From a Deploys view row, a webview banner (project name) or the status bar (everything)
+      cancelDeploy(typeof itemOrName === "string" ? itemOrName : itemOrName?.deploy?.key);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.showDeployOutput", () => {
+      showDeployOutput();
     })
   );
 
+  // Watch mode
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.startWatch", async (folderUri?: unknown) => {
+      await startWatch(folderUri instanceof vscode.Uri ? folderUri : undefined);
+    }),
+    vscode.commands.registerCommand("buildandship.stopWatch", () => {
+      stopWatch();
+    }),
+    { dispose: stopWatch }
+  );
+
   // Init
   context.subscriptions.push(
-    vscode.commands.registerCommand("buildandship.init", async () => {
-      await init();
+    vscode.commands.registerCommand("buildandship.init", async (folderUri?: unknown) => {
+      await init(folderUri instanceof vscode.Uri ? folderUri : undefined);
     })
   );
 
   // Refresh
   context.subscriptions.push(
-    vscode.commands.registerCommand("buildandship.refresh", async () => {
-      await welcomeProvider.refresh();
-      await updateStatusBar();
+    vscode.commands.registerCommand("buildandship.refresh", () => {
+      // Every view re-reads through the store
+      invalidate();
     })
   );
 
@@ -113,7 +232,6 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       const name = typeof item === "string" ? item : item?.project?.name;
       if (name) {
         await stop(name);
-        setTimeout(() => welcomeProvider.refresh(), 3000);
       }
     })
   );
@@ -124,7 +242,6 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       const name = typeof item === "string" ? item : item?.project?.name;
       if (name) {
         await restart(name);
-        setTimeout(() => welcomeProvider.refresh(), 5000);
       }
     })
   );
@@ -135,11 +252,95 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
       const name = typeof item === "string" ? item : item?.project?.name;
       if (name) {
         await destroy(name);
-        setTimeout(() => welcomeProvider.refresh(), 3000);
       }
     })
   );
 
+  // Rollback
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.rollback", async (item: any, deployId?: string) => {
+      if (!requireCapability("rollback")) { return; }
+      const name = typeof item === "string" ? item : item?.project?.name;
+      await rollback(name, deployId);
+      invalidate(name);
+    })
+  );
+
+  // Previews
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.deployPreview", async (folderUri?: unknown) => {
+      if (!requireCapability("previews")) { return; }
+      await deployPreview(folderUri instanceof vscode.Uri ? folderUri : undefined);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.promotePreview", async (item: any) => {
+      if (!requireCapability("previews")) { return false; }
+      const name = typeof item === "string" ? item : item?.project?.name;
+      const promoted = await promotePreview(name);
+      if (promoted) {
+        invalidate();
+      }
+      return promoted;
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.cleanUpPreviews", async (item: any) => {
+      if (!requireCapability("previews")) { return false; }
+      const name = typeof item === "string" ? item : item?.project?.name;
+      const removed = await cleanUpPreviews(name);
+      if (removed) { invalidate(); }
+      return removed;
+    })
+  );
+
+  // Environment
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.manageEnv", async (item: any) => {
+      if (!requireCapability("env")) { return; }
+      const name = typeof item === "string" ? item : item?.project?.name;
+      await manageEnv(name);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.importEnv", async (itemOrUri: any) => {
+      if (!requireCapability("env")) { return; }
+      // From the explorer we get the .env file; from the tree, a project
+      if (itemOrUri instanceof vscode.Uri) {
+        await importDotEnv(undefined, itemOrUri);
+      } else {
+        await importDotEnv(typeof itemOrUri === "string" ? itemOrUri : itemOrUri?.project?.name);
+      }
+    })
+  );
+
+  // Domains
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.addDomain", async (item: any) => {
+      if (!requireCapability("domains")) { return; }
+      const name = typeof item === "string" ? item : item?.project?.name;
+      await addCustomDomain(name);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.removeDomain", async (item: any, domain?: string) => {
+      if (!requireCapability("domains")) { return; }
+      const name = typeof item === "string" ? item : item?.project?.name;
+      await removeCustomDomain(name, domain);
+    })
+  );
+
+  // Bind a workspace folder to a project
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.selectProject", async (folderUri?: unknown) => {
+      await selectProject(folderUri instanceof vscode.Uri ? folderUri : undefined);
+    })
+  );
+
   // Link
   context.subscriptions.push(
     vscode.commands.registerCommand("buildandship.link", async (item: any) => {
@@ -148,23 +349,24 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     })
   );
 
-  // Install CLI
+  // Install / update CLI
   context.subscriptions.push(
-    vscode.commands.registerCommand("buildandship.installCli", () => {
-      const terminal = vscode.window.createTerminal({
-        name: "Build & Ship: Install",
-        iconPath: new vscode.ThemeIcon("cloud-download"),
-      });
-      terminal.show();
-      terminal.sendText("curl -fsSL https://buildandship.it/install.sh | sh");
+    vscode.commands.registerCommand("buildandship.installCli", async () => {
+      if (await installCli()) {
+        // Same cliPath (an update) doesn't trigger re-detection on its own
+        await detectCapabilities();
+        invalidate();
+      }
+    }),
+    vscode.commands.registerCommand("buildandship.checkForCliUpdate", () => checkForCliUpdate(true))
+  );
 
-      // Watch for terminal close, then refresh
-      const disposable = vscode.window.onDidCloseTerminal((t) => {
-        if (t === terminal) {
-          disposable.dispose();
-          setTimeout(() => welcomeProvider.refresh(), 1000);
-        }
-      });
+  // Start Docker (recovery action on error pages and the check report)
+  context.subscriptions.push(
+    vscode.commands.registerCommand("buildandship.startDocker", async () => {
+      if (await startDocker()) {
+        invalidate();
+      }
     })
   );
 
@@ -175,16 +377,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     })
   );
 
+  // ── Binding / services changes → re-highlight the current project ─
+  onBindingChange(() => {
+    invalidate();
+    void updateServicesContext();
+  });
+
   // ── Auth state listener ─────────────────────────────────────────
   onAuthChange(() => {
-    welcomeProvider.refresh();
-    updateStatusBar();
+    invalidate();
   });
 
   // ── Initial check ──────────────────────────────────────────────
   await checkAuth();
 
   console.log("[Build & Ship] Extension activated ✓");
+  return createApi();
 }
 
 export function deactivate(): void {
@@ -0,0 +1,68 @@
+/**
+ * Workspace folders — picks which folder a command acts on in multi-root
+ * workspaces.
+ *
+ * Single-folder workspaces never see a prompt. With several folders the
+ * picker lists the last choice first (remembered per workspace), and
+ * commands invoked from the explorer use the clicked folder directly.
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+
+/** A folder to deploy / init — a workspace root or any folder inside one */
+export interface FolderTarget {
+  name: string;
+  uri: vscode.Uri;
+}
+
+const LAST_FOLDER_KEY = "buildandship.lastFolder";
+
+let workspaceState: vscode.Memento | undefined;
+
+/** Give the picker somewhere to remember the last choice (call from activate) */
+export function initFolders(context: vscode.ExtensionContext): void {
+  workspaceState = context.workspaceState;
+}
+
+/** Every open workspace folder as a target */
+export function workspaceTargets(): FolderTarget[] {
+  return (vscode.workspace.workspaceFolders ?? []).map((f) => ({ name: f.name, uri: f.uri }));
+}
+
+/**
+ * Resolve the folder a command should act on: the given URI (explorer
+ * context menu), the only workspace folder, or the user's pick.
+ */
+export async function pickFolder(placeHolder: string, uri?: vscode.Uri): Promise<FolderTarget | undefined> {
+  if (uri) {
+    const root = vscode.workspace.getWorkspaceFolder(uri);
+    // A workspace root keeps its workspace name; a subfolder is named after itself
+    const name = root && root.uri.fsPath === uri.fsPath ? root.name : path.basename(uri.fsPath);
+    await remember(uri);
+    return { name, uri };
+  }
+
+  const targets = workspaceTargets();
+  if (targets.length <= 1) { return targets[0]; }
+
+  const last = workspaceState?.get<string>(LAST_FOLDER_KEY);
+  const items = targets
+    .map((t) => ({
+      label: t.name,
+      description: t.uri.fsPath,
+      detail: t.uri.toString() === last ? "Last used" : undefined,
+      target: t,
+    }))
+    .sort((a, b) => Number(b.target.uri.toString() === last) - Number(a.target.uri.toString() === last));
+
+  const pick = await vscode.window.showQuickPick(items, { placeHolder });
+  if (!pick) { return undefined; }
+
+  await remember(pick.target.uri);
+  return pick.target;
+}
+
+async function remember(uri: vscode.Uri): Promise<void> {
+  await workspaceState?.update(LAST_FOLDER_KEY, uri.toString());
+}
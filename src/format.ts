@@ -0,0 +1,40 @@
+/**
+ * Formatting helpers shared by the webviews and commands.
+ */
+
+/** Format a date string as relative time (e.g., "2m ago", "3h ago") */
+export function formatRelativeTime(dateStr: string): string {
+  try {
+    const now = Date.now();
+    const then = new Date(dateStr).getTime();
+    const diffMs = now - then;
+    const diffMin = Math.floor(diffMs / 60000);
+
+    if (diffMin < 1) { return "just now"; }
+    if (diffMin < 60) { return `${diffMin}m ago`; }
+
+    const diffHr = Math.floor(diffMin / 60);
+    if (diffHr < 24) { return `${diffHr}h ago`; }
+
+    const diffDay = Math.floor(diffHr / 24);
+    if (diffDay < 30) { return `${diffDay}d ago`; }
+
+    return new Date(dateStr).toLocaleDateString();
+  } catch {
+    return dateStr;
+  }
+}
+
+/** Format a deploy duration (e.g., "8.4s", "2m 05s"), or an em dash if unknown */
+export function formatDuration(ms?: number): string {
+  if (!ms) { return "—"; }
+  if (ms < 60000) { return `${(ms / 1000).toFixed(1)}s`; }
+  const min = Math.floor(ms / 60000);
+  const sec = Math.round((ms % 60000) / 1000);
+  return `${min}m ${String(sec).padStart(2, "0")}s`;
+}
+
+/** Short form of a commit SHA */
+export function shortSha(sha?: string): string {
+  return sha ? sha.slice(0, 7) : "";
+}
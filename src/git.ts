@@ -0,0 +1,159 @@
+/**
+ * Git helpers — thin wrappers around the local `git` binary.
+ * Used to show deployed commits from the project's own checkout,
+ * falling back to the linked GitHub repo when the commit isn't local,
+ * and to tell which branches previews are deployed from.
+ */
+
+import { execFile } from "child_process";
+import * as vscode from "vscode";
+
+function git(cwd: string, args: string[], timeoutMs = 10000): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile("git", args, {
+      cwd,
+      timeout: timeoutMs,
+      maxBuffer: 4 * 1024 * 1024,
+    }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args.join(" ")}: ${stderr?.trim() || error.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
+
+/** True if `sha` names a commit in the repository at `cwd` */
+export async function hasCommit(cwd: string, sha: string): Promise<boolean> {
+  try {
+    await git(cwd, ["cat-file", "-e", `${sha}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Checked-out branch (undefined when detached or not a repository) */
+export async function currentBranch(cwd: string): Promise<string | undefined> {
+  try {
+    const branch = (await git(cwd, ["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+    return branch && branch !== "HEAD" ? branch : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Top of the repository containing `cwd` (undefined if not a repository) */
+export async function repoRoot(cwd: string): Promise<string | undefined> {
+  try {
+    return (await git(cwd, ["rev-parse", "--show-toplevel"])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Commit a ref points at (undefined if it doesn't resolve) */
+export async function resolveRef(cwd: string, ref: string): Promise<string | undefined> {
+  try {
+    return (await git(cwd, ["rev-parse", "--verify", "--quiet", `${ref}^{commit}`])).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The subset of `paths` that .gitignore rules exclude (none if not a repository) */
+export function ignoredPaths(cwd: string, paths: string[]): Promise<Set<string>> {
+  if (paths.length === 0) { return Promise.resolve(new Set()); }
+  return new Promise((resolve) => {
+    // Exit code 1 just means "nothing ignored", so this can't go through git()
+    execFile("git", ["check-ignore", "--", ...paths], { cwd, timeout: 10000 }, (error, stdout) => {
+      if (error && error.code !== 1) {
+        resolve(new Set());
+        return;
+      }
+      resolve(new Set(stdout.split("\n").map((p) => p.trim()).filter(Boolean)));
+    });
+  });
+}
+
+/** Number of changed or untracked files under `cwd` (undefined if not a repository) */
+export async function uncommittedChanges(cwd: string): Promise<number | undefined> {
+  try {
+    const out = await git(cwd, ["status", "--porcelain", "--", "."]);
+    return out.split("\n").filter((line) => line.trim()).length;
+  } catch {
+    return undefined;
+  }
+}
+
+/** The remote's default branch (origin/HEAD), else whichever of main/master exists */
+export async function defaultBranch(cwd: string): Promise<string> {
+  try {
+    const ref = (await git(cwd, ["symbolic-ref", "--short", "refs/remotes/origin/HEAD"])).trim();
+    if (ref) { return ref.replace(/^origin\//, ""); }
+  } catch {
+    // No remote HEAD — guess from local branches
+  }
+  const local = await branchNames(cwd, ["refs/heads"]);
+  return local.has("main") || !local.has("master") ? "main" : "master";
+}
+
+async function branchNames(cwd: string, refs: string[], extra: string[] = []): Promise<Set<string>> {
+  const out = await git(cwd, ["for-each-ref", "--format=%(refname:short)", ...extra, ...refs]);
+  return new Set(out.split("\n").map((b) => b.trim().replace(/^origin\//, "")).filter(Boolean));
+}
+
+/**
+ * Which of `branches` are done with: merged into the default branch, or
+ * gone from both the local repo and origin (e.g. deleted after a squash
+ * merge). Branches still in play are left out of the result.
+ */
+export async function staleBranches(cwd: string, branches: string[]): Promise<Map<string, "merged" | "deleted">> {
+  const stale = new Map<string, "merged" | "deleted">();
+  const base = await defaultBranch(cwd);
+  const [existing, merged] = await Promise.all([
+    branchNames(cwd, ["refs/heads", "refs/remotes/origin"]),
+    branchNames(cwd, ["refs/heads", "refs/remotes/origin"], [`--merged=${base}`]).catch(() => new Set<string>()),
+  ]);
+
+  for (const branch of branches) {
+    if (branch === base) { continue; }
+    if (!existing.has(branch)) {
+      stale.set(branch, "deleted");
+    } else if (merged.has(branch)) {
+      stale.set(branch, "merged");
+    }
+  }
+  return stale;
+}
+
+/** Build a GitHub commit URL from "owner/name" or a full repo URL */
+export function githubCommitUrl(repo: string, sha: string): string {
+  const slug = repo
+    .replace(/^(https?:\/\/|git@)github\.com[/:]/, "")
+    .replace(/\.git$/, "")
+    .replace(/\/$/, "");
+  return `https://github.com/${slug}/commit/${sha}`;
+}
+
+/**
+ * Open a deployed commit. Prefers the local checkout (rendered as a diff
+ * document in the editor); otherwise opens it on GitHub if the project
+ * is linked to a repo.
+ */
+export async function openCommit(sha: string, directory?: string, repo?: string): Promise<void> {
+  if (directory && await hasCommit(directory, sha)) {
+    const content = await git(directory, ["show", "--stat", "--patch", "--format=fuller", sha]);
+    const doc = await vscode.workspace.openTextDocument({ content, language: "diff" });
+    await vscode.window.showTextDocument(doc, { preview: true });
+    return;
+  }
+
+  if (repo) {
+    await vscode.env.openExternal(vscode.Uri.parse(githubCommitUrl(repo, sha)));
+    return;
+  }
+
+  vscode.window.showWarningMessage(`Build & Ship: Commit ${sha.slice(0, 7)} isn't in your local history and the project isn't linked to GitHub.`);
+}
@@ -0,0 +1,381 @@
+/**
+ * CLI installer — downloads `bs` into the extension's global storage,
+ * checks its SHA-256, and points `buildandship.cliPath` at it. No shell
+ * scripts, and it works offline from a local mirror.
+ *
+ * `buildandship.install.source` says where releases come from:
+ *   - a release server or internal mirror (https) serving latest.json
+ *   - a local folder (or .json file) with the same layout
+ *   - a local bs binary, with its checksum beside it in <binary>.sha256
+ * It's a machine setting, so an opened workspace can't redirect it.
+ *
+ * latest.json:
+ *   { "version": "0.9.0",
+ *     "assets": { "darwin-arm64": { "url": "bs-0.9.0-darwin-arm64", "sha256": "…" }, … } }
+ * Asset URLs are relative to the manifest. Keys are `<platform>-<arch>`
+ * as Node reports them (darwin-arm64, linux-x64, win32-x64, …).
+ */
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as https from "https";
+import type { IncomingMessage } from "http";
+import * as path from "path";
+import * as vscode from "vscode";
+import { cliVersion, compareVersions } from "./capabilities.js";
+import { pauseDaemon, resumeDaemon } from "./rpc.js";
+
+const DEFAULT_SOURCE = "https://buildandship.it/releases";
+const BINARY = process.platform === "win32" ? "bs.exe" : "bs";
+/** Automatic update checks happen at most this often */
+const UPDATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const LAST_CHECK_KEY = "buildandship.lastCliUpdateCheck";
+
+interface Manifest {
+  version: string;
+  assets: Record<string, { url: string; sha256: string }>;
+}
+
+/** One downloadable build for this machine */
+interface Release {
+  /** Undefined for a bare local binary — we learn it after installing */
+  version?: string;
+  sha256: string;
+  /** Copy it to `dest`, reporting bytes; resolves with the SHA-256 of what was written */
+  fetch(dest: string, onProgress: (received: number, total?: number) => void, token: vscode.CancellationToken): Promise<string>;
+}
+
+let globalStorage: vscode.Uri | undefined;
+let globalState: vscode.Memento | undefined;
+let installing: Promise<boolean> | undefined;
+
+function getConfig(): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration("buildandship");
+}
+
+/** Where our managed binary lives */
+function managedPath(): string {
+  return path.join(globalStorage!.fsPath, "bin", BINARY);
+}
+
+// ── Sources ─────────────────────────────────────────────────────────
+
+/** The build for this machine from the configured source */
+async function resolveRelease(): Promise<Release> {
+  const source = getConfig().get<string>("install.source", "").trim() || DEFAULT_SOURCE;
+
+  if (/^http:\/\//i.test(source)) {
+    throw new Error(`${source} isn't https — the CLI is only downloaded over an encrypted connection.`);
+  }
+  if (/^https:\/\//i.test(source)) {
+    const manifestUrl = source.endsWith(".json") ? source : `${source.replace(/\/$/, "")}/latest.json`;
+    const manifest = parseManifest(await readRemote(manifestUrl), manifestUrl);
+    const asset = pickAsset(manifest, manifestUrl);
+    const url = new URL(asset.url, manifestUrl).toString();
+    return {
+      version: manifest.version,
+      sha256: asset.sha256,
+      fetch: (dest, onProgress, token) => download(url, dest, onProgress, token),
+    };
+  }
+
+  const local = source.startsWith("file:") ? vscode.Uri.parse(source).fsPath : source.replace(/^~(?=$|[\\/])/, process.env.HOME ?? "~");
+  const stat = await fs.promises.stat(local).catch(() => undefined);
+  if (!stat) {
+    throw new Error(`${local} doesn't exist.`);
+  }
+
+  if (stat.isDirectory() || local.endsWith(".json")) {
+    const manifestPath = stat.isDirectory() ? path.join(local, "latest.json") : local;
+    const manifest = parseManifest(await fs.promises.readFile(manifestPath, "utf8"), manifestPath);
+    const asset = pickAsset(manifest, manifestPath);
+    const file = path.resolve(path.dirname(manifestPath), asset.url);
+    return {
+      version: manifest.version,
+      sha256: asset.sha256,
+      fetch: (dest, onProgress, token) => copyFile(file, dest, onProgress, token),
+    };
+  }
+
+  // A bare binary — its checksum must sit next to it
+  const sidecar = await fs.promises.readFile(`${local}.sha256`, "utf8").catch(() => undefined);
+  const sha256 = sidecar?.trim().split(/\s+/)[0];
+  if (!sha256) {
+    throw new Error(`No checksum for ${local} — put its SHA-256 in ${path.basename(local)}.sha256 beside it.`);
+  }
+  return {
+    sha256,
+    fetch: (dest, onProgress, token) => copyFile(local, dest, onProgress, token),
+  };
+}
+
+function parseManifest(text: string, from: string): Manifest {
+  let manifest: Manifest;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error(`${from} isn't valid JSON.`);
+  }
+  if (typeof manifest?.version !== "string" || typeof manifest.assets !== "object") {
+    throw new Error(`${from} has no version or assets.`);
+  }
+  manifest.version = manifest.version.replace(/^v/, "");
+  return manifest;
+}
+
+function pickAsset(manifest: Manifest, from: string): { url: string; sha256: string } {
+  const key = `${process.platform}-${process.arch}`;
+  const asset = manifest.assets[key];
+  if (!asset?.url || !asset.sha256) {
+    throw new Error(`${from} has no v${manifest.version} build for ${key}.`);
+  }
+  return asset;
+}
+
+// ── Transfer ────────────────────────────────────────────────────────
+
+/** GET over https, following redirects; rejects on anything but 2xx */
+function get(url: string, token?: vscode.CancellationToken, redirects = 5): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    if (!url.startsWith("https:")) {
+      reject(new Error(`Refusing to follow ${url} — not https.`));
+      return;
+    }
+    const req = https.get(url, { headers: { "User-Agent": "buildandship-vscode" } }, (res) => {
+      const status = res.statusCode ?? 0;
+      if (status >= 300 && status < 400 && res.headers.location && redirects > 0) {
+        res.resume();
+        resolve(get(new URL(res.headers.location, url).toString(), token, redirects - 1));
+        return;
+      }
+      if (status < 200 || status >= 300) {
+        res.resume();
+        reject(new Error(`${url} answered ${status}.`));
+        return;
+      }
+      resolve(res);
+    });
+    req.setTimeout(30000, () => req.destroy(new Error(`${url} stopped responding.`)));
+    req.on("error", reject);
+    token?.onCancellationRequested(() => req.destroy(new Error("Cancelled")));
+  });
+}
+
+async function readRemote(url: string): Promise<string> {
+  const res = await get(url);
+  const chunks: Buffer[] = [];
+  for await (const chunk of res) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/** Pipe a stream into `dest`, hashing as it goes */
+function save(
+  input: NodeJS.ReadableStream & { destroy(error?: Error): void },
+  dest: string,
+  total: number | undefined,
+  onProgress: (received: number, total?: number) => void,
+  token: vscode.CancellationToken
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    const out = fs.createWriteStream(dest, { mode: 0o755 });
+    let received = 0;
+
+    const cancel = token.onCancellationRequested(() => input.destroy(new Error("Cancelled")));
+    const fail = (err: Error) => {
+      cancel.dispose();
+      out.destroy();
+      reject(err);
+    };
+
+    input.on("data", (chunk: Buffer) => {
+      hash.update(chunk);
+      received += chunk.length;
+      onProgress(received, total);
+    });
+    input.on("error", fail);
+    out.on("error", fail);
+    out.on("finish", () => {
+      cancel.dispose();
+      resolve(hash.digest("hex"));
+    });
+    input.pipe(out);
+  });
+}
+
+async function download(url: string, dest: string, onProgress: (received: number, total?: number) => void, token: vscode.CancellationToken): Promise<string> {
+  const res = await get(url, token);
+  const length = Number(res.headers["content-length"]);
+  return save(res, dest, length > 0 ? length : undefined, onProgress, token);
+}
+
+async function copyFile(file: string, dest: string, onProgress: (received: number, total?: number) => void, token: vscode.CancellationToken): Promise<string> {
+  const { size } = await fs.promises.stat(file);
+  return save(fs.createReadStream(file), dest, size, onProgress, token);
+}
+
+// ── Install ─────────────────────────────────────────────────────────
+
+/**
+ * Install (or update) the CLI from the configured source into global
+ * storage, verify it, and make it the `buildandship.cliPath`. Resolves
+ * true once it's in place and in use. Concurrent calls share one install.
+ */
+export function installCli(): Promise<boolean> {
+  if (!installing) {
+    installing = runInstall()
+      .then(async (installed) => installed && await useInstalledCli())
+      .finally(() => { installing = undefined; });
+  }
+  return installing;
+}
+
+/**
+ * The install sets cliPath for the user, but a workspace value wins over
+ * that — offer to clear it. Resolves true if the installed CLI is in use.
+ */
+async function useInstalledCli(): Promise<boolean> {
+  const target = managedPath();
+  const override = getConfig().inspect<string>("cliPath")?.workspaceValue;
+  if (override === undefined || override === target) { return true; }
+
+  const pick = await vscode.window.showWarningMessage(
+    `Build & Ship: The CLI was installed, but this workspace sets buildandship.cliPath to "${override}", so that one is still used.`,
+    "Use Installed CLI",
+    "Keep Workspace Setting"
+  );
+  if (pick !== "Use Installed CLI") { return false; }
+  await getConfig().update("cliPath", undefined, vscode.ConfigurationTarget.Workspace);
+  return true;
+}
+
+async function runInstall(): Promise<boolean> {
+  const target = managedPath();
+  const temp = `${target}.download`;
+
+  return vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Build & Ship: Installing the CLI", cancellable: true },
+    async (progress, token) => {
+      try {
+        progress.report({ message: "Finding the right build…" });
+        const release = await resolveRelease();
+        const label = release.version ? `bs v${release.version}` : "bs";
+
+        await fs.promises.mkdir(path.dirname(target), { recursive: true });
+        let reported = 0;
+        const sha256 = await release.fetch(temp, (received, total) => {
+          const mb = (received / 1024 / 1024).toFixed(1);
+          if (!total) {
+            progress.report({ message: `Fetching ${label} (${mb} MB)` });
+            return;
+          }
+          const percent = Math.floor((received / total) * 100);
+          progress.report({ message: `Fetching ${label} (${mb} MB)`, increment: percent - reported });
+          reported = percent;
+        }, token);
+
+        progress.report({ message: "Checking the checksum…" });
+        if (sha256.toLowerCase() !== release.sha256.toLowerCase()) {
+          throw new Error(`Checksum mismatch — expected ${release.sha256.slice(0, 12)}…, got ${sha256.slice(0, 12)}…. Nothing was installed.`);
+        }
+
+        await fs.promises.chmod(temp, 0o755);
+        // A running `bs serve` holds the old binary (Windows won't replace it) —
+        // stop it for the swap and start the new one afterwards
+        await pauseDaemon();
+        try {
+          await fs.promises.rename(temp, target);
+          await getConfig().update("cliPath", target, vscode.ConfigurationTarget.Global);
+        } finally {
+          resumeDaemon();
+        }
+
+        vscode.window.setStatusBarMessage(`$(check) ${label} installed`, 5000);
+        return true;
+      } catch (err: any) {
+        await fs.promises.rm(temp, { force: true }).catch(() => undefined);
+        if (token.isCancellationRequested) {
+          vscode.window.setStatusBarMessage("$(circle-slash) CLI install cancelled", 4000);
+          return false;
+        }
+        const pick = await vscode.window.showErrorMessage(
+          `Build & Ship: Couldn't install the CLI. ${err.message}`,
+          "Change Source"
+        );
+        if (pick) {
+          vscode.commands.executeCommand("workbench.action.openSettings", "buildandship.install.source");
+        }
+        return false;
+      }
+    }
+  );
+}
+
+// ── Updates ─────────────────────────────────────────────────────────
+
+/**
+ * Compare the installed CLI with the source's latest and offer to update.
+ * `manual` (the command) also reports "up to date" and failures; the
+ * automatic check stays quiet unless there's something newer.
+ */
+export async function checkForCliUpdate(manual = false): Promise<void> {
+  const current = cliVersion();
+  let latest: string | undefined;
+  try {
+    latest = (await resolveRelease()).version;
+  } catch (err: any) {
+    if (manual) {
+      vscode.window.showErrorMessage(`Build & Ship: Couldn't check for CLI updates. ${err.message}`);
+    }
+    return;
+  }
+
+  if (!latest) {
+    // A bare local binary carries no version to compare
+    if (manual) {
+      vscode.window.setStatusBarMessage("$(info) The CLI source is a local binary — reinstall to pick up a new one", 5000);
+    }
+    return;
+  }
+
+  if (!current || current === "unknown") {
+    if (manual && await vscode.window.showInformationMessage(`Build & Ship: Install bs v${latest}?`, "Install") === "Install") {
+      await vscode.commands.executeCommand("buildandship.installCli");
+    }
+    return;
+  }
+
+  if (compareVersions(latest, current) <= 0) {
+    if (manual) {
+      vscode.window.setStatusBarMessage(`$(check) bs v${current} is up to date`, 4000);
+    }
+    return;
+  }
+
+  const pick = await vscode.window.showInformationMessage(
+    `Build & Ship: bs v${latest} is out (you have v${current}).`,
+    "Update"
+  );
+  if (pick) {
+    await vscode.commands.executeCommand("buildandship.installCli");
+  }
+}
+
+/** Daily update check for the CLI we installed (not one from Homebrew & co) */
+export async function autoCheckForCliUpdate(): Promise<void> {
+  if (!getConfig().get<boolean>("install.checkForUpdates", true)) { return; }
+  if (getConfig().get<string>("cliPath", "bs") !== managedPath()) { return; }
+
+  const last = globalState?.get<number>(LAST_CHECK_KEY) ?? 0;
+  if (Date.now() - last < UPDATE_CHECK_INTERVAL_MS) { return; }
+  await globalState?.update(LAST_CHECK_KEY, Date.now());
+  await checkForCliUpdate(false);
+}
+
+/** Remember where to install (call once from activate) */
+export function initInstaller(context: vscode.ExtensionContext): void {
+  globalStorage = context.globalStorageUri;
+  globalState = context.globalState;
+}
@@ -0,0 +1,101 @@
+/**
+ * Log streaming — keeps one `bs logs --follow` child per open log viewer
+ * and forwards new lines to a webview in small batches.
+ *
+ * Each batch is also scanned for crashes, which land in the Problems
+ * panel (diagnostics.ts).
+ *
+ * Owned by a webview (sidebar or dashboard). Streams are killed when the
+ * viewer closes, the card collapses, or the webview goes away — nothing
+ * keeps following a project nobody is looking at.
+ */
+
+import * as vscode from "vscode";
+import { followLogs, type LogStream } from "./cli.js";
+import { reportRuntimeProblems } from "./diagnostics.js";
+
+/** How often buffered lines are flushed to the webview */
+const FLUSH_INTERVAL_MS = 100;
+
+/** Max lines the webview keeps per viewer (older lines are dropped) */
+export function getLogLineCap(): number {
+  return vscode.workspace.getConfiguration("buildandship").get<number>("logLineCap", 2000);
+}
+
+export class LogStreamManager implements vscode.Disposable {
+  private streams = new Map<string, LogStream>();
+  private buffers = new Map<string, string[]>();
+  private flushTimer?: ReturnType<typeof setInterval>;
+
+  constructor(private readonly post: (message: unknown) => void) {}
+
+  /** Start following a project, replacing any stream already open for it */
+  start(project: string, initialLines: number): void {
+    this.stop(project);
+
+    this.post({ command: "logsStart", project });
+    this.buffers.set(project, []);
+
+    const stream = followLogs(
+      project,
+      initialLines,
+      (line) => this.buffers.get(project)?.push(line),
+      (error) => {
+        // Only report the exit if this is still the active stream
+        if (this.streams.get(project) !== stream) { return; }
+        this.flush();
+        this.streams.delete(project);
+        this.buffers.delete(project);
+        if (this.streams.size === 0) { this.clearFlushTimer(); }
+        this.post({ command: "logsEnd", project, error });
+      }
+    );
+
+    this.streams.set(project, stream);
+    this.ensureFlushTimer();
+  }
+
+  /** Stop following a project (no-op if it isn't being followed) */
+  stop(project: string): void {
+    const stream = this.streams.get(project);
+    if (!stream) { return; }
+    this.streams.delete(project);
+    this.buffers.delete(project);
+    stream.stop();
+    if (this.streams.size === 0) { this.clearFlushTimer(); }
+  }
+
+  /** Stop every stream — call before re-rendering or disposing the webview */
+  stopAll(): void {
+    for (const project of [...this.streams.keys()]) {
+      this.stop(project);
+    }
+  }
+
+  dispose(): void {
+    this.stopAll();
+  }
+
+  private flush(): void {
+    for (const [project, lines] of this.buffers) {
+      if (lines.length > 0) {
+        const batch = lines.splice(0);
+        this.post({ command: "logsAppend", project, lines: batch });
+        void reportRuntimeProblems(project, batch);
+      }
+    }
+  }
+
+  private ensureFlushTimer(): void {
+    if (!this.flushTimer) {
+      this.flushTimer = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  private clearFlushTimer(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,609 @@
+/**
+ * Inline log viewer — client-side script + styles shared by the sidebar
+ * and dashboard webviews.
+ *
+ * Each webview renders its own viewer markup (sizes differ) and tags the
+ * pieces with data attributes the script looks for:
+ *   [data-log-output]  the scrolling line container
+ *   [data-log-pause]   pause/resume button
+ *   [data-log-lock]    auto-scroll lock button
+ *   [data-log-filter]  search box (rendered by logToolsHtml, with the
+ *                      regex toggle, match count and level chips)
+ *
+ * The extension streams lines in with logsStart / logsAppend / logsEnd
+ * messages (see LogStreamManager). While paused, lines are buffered and
+ * flushed on resume. Scrolling up locks auto-scroll; scrolling back to
+ * the bottom releases it.
+ *
+ * Search: the filter box hides non-matching lines (plain text or regex),
+ * highlights matches and steps through them with Enter / Shift+Enter.
+ * Each line is tagged with a level (error/warn/info/debug) from common
+ * text markers or a JSON `level` field; level chips toggle visibility.
+ *
+ * Stack frames ("/app/src/x.ts:42:13", Python's 'File "...", line N')
+ * become links that post `openSource`; the extension maps the container
+ * path back to a workspace file (see pathmap.ts).
+ *
+ * Refreshes: patchContent swaps freshly rendered markup in but carries
+ * the open viewers (lines, filters, scroll) and expanded cards across,
+ * so a store refresh never interrupts a log stream.
+ */
+
+export interface LogViewerOptions {
+  /** Element id prefix of each project's viewer, e.g. "logs-" */
+  idPrefix: string;
+  /** Max lines kept per viewer (older lines are dropped) */
+  lineCap: number;
+  /** Selector of the project cards (tagged with data-project) that expand */
+  cardSelector: string;
+}
+
+/** Levels with a toggle chip, in display order */
+const LOG_LEVELS = ["error", "warn", "info", "debug"] as const;
+
+/** Filter box, match navigation and level chips for one viewer.
+ *  `eName` must already be HTML-escaped. */
+export function logToolsHtml(eName: string): string {
+  const chips = LOG_LEVELS.map((level) =>
+    `<button class="log-level-chip lvl-${level} active" data-level="${level}" onclick="toggleLogLevel('${eName}', '${level}')" title="Show/hide ${level} lines">${level}</button>`
+  ).join("");
+
+  return `
+    <div class="log-tools" onclick="event.stopPropagation()">
+      <input class="log-filter" data-log-filter type="text" placeholder="Filter logs" spellcheck="false"
+        oninput="setLogFilter('${eName}')" onkeydown="logFilterKey(event, '${eName}')" />
+      <button class="log-tool-btn" data-log-regex onclick="toggleLogRegex('${eName}')" title="Use regular expression">.*</button>
+      <span class="log-match-count" data-log-count></span>
+      <button class="log-tool-btn" onclick="stepLogMatch('${eName}', -1)" title="Previous match (Shift+Enter)">&#x2191;</button>
+      <button class="log-tool-btn" onclick="stepLogMatch('${eName}', 1)" title="Next match (Enter)">&#x2193;</button>
+      <div class="log-levels">${chips}</div>
+    </div>`;
+}
+
+export function logViewerStyles(): string {
+  return `
+    .log-line { min-height: 1.5em; }
+
+    .log-live-dot {
+      display: none;
+      width: 6px; height: 6px;
+      border-radius: 50%;
+      background: #4ade80;
+      box-shadow: 0 0 6px rgba(74, 222, 128, 0.6);
+      animation: logLive 1.6s ease-in-out infinite;
+    }
+
+    .log-viewer.streaming .log-live-dot { display: inline-block; }
+    .log-viewer.paused .log-live-dot { background: #fbbf24; box-shadow: none; animation: none; }
+
+    @keyframes logLive {
+      0%, 100% { opacity: 1; }
+      50% { opacity: 0.35; }
+    }
+
+    .log-action-btn.active {
+      background: var(--vscode-list-activeSelectionBackground, rgba(0, 120, 212, 0.2));
+      color: var(--vscode-foreground);
+    }
+
+    .log-pending {
+      font-size: 9px;
+      font-weight: 700;
+      font-variant-numeric: tabular-nums;
+      color: #fbbf24;
+    }
+
+    .log-ended {
+      opacity: 0.5;
+      font-style: italic;
+    }
+
+    .log-source {
+      color: var(--vscode-textLink-foreground);
+      text-decoration: none;
+      cursor: pointer;
+    }
+
+    .log-source:hover { text-decoration: underline; }
+
+    .log-line.hidden { display: none; }
+    .log-line.lvl-error { color: #f87171; }
+    .log-line.lvl-warn { color: #fbbf24; }
+    .log-line.lvl-debug { opacity: 0.6; }
+
+    .log-line mark {
+      background: rgba(245, 158, 11, 0.3);
+      color: inherit;
+      border-radius: 2px;
+    }
+
+    .log-line mark.current {
+      background: #f59e0b;
+      color: #000;
+    }
+
+    .log-tools {
+      display: flex;
+      align-items: center;
+      flex-wrap: wrap;
+      gap: 4px;
+      padding: 4px 8px;
+      background: var(--vscode-sideBar-background);
+      border-top: 1px solid var(--vscode-widget-border);
+    }
+
+    .log-filter {
+      flex: 1;
+      min-width: 80px;
+      padding: 2px 6px;
+      border: 1px solid var(--vscode-input-border, var(--vscode-widget-border));
+      border-radius: 4px;
+      background: var(--vscode-input-background);
+      color: var(--vscode-input-foreground);
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 10.5px;
+      outline: none;
+    }
+
+    .log-filter:focus { border-color: var(--vscode-focusBorder); }
+    .log-filter.invalid { border-color: #f87171; }
+
+    .log-tool-btn {
+      min-width: 20px;
+      height: 20px;
+      padding: 0 4px;
+      border: none;
+      border-radius: 3px;
+      background: transparent;
+      color: var(--vscode-descriptionForeground);
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 10px;
+      cursor: pointer;
+    }
+
+    .log-tool-btn:hover { background: var(--vscode-list-hoverBackground); color: var(--vscode-foreground); }
+    .log-tool-btn.active { background: rgba(0, 120, 212, 0.2); color: var(--vscode-foreground); }
+
+    .log-match-count {
+      font-size: 9.5px;
+      font-variant-numeric: tabular-nums;
+      color: var(--vscode-descriptionForeground);
+      min-width: 28px;
+      text-align: center;
+    }
+
+    .log-levels { display: flex; gap: 3px; }
+
+    .log-level-chip {
+      padding: 1px 6px;
+      border: 1px solid var(--vscode-widget-border);
+      border-radius: 3px;
+      background: transparent;
+      color: var(--vscode-descriptionForeground);
+      font-family: inherit;
+      font-size: 8.5px;
+      font-weight: 700;
+      text-transform: uppercase;
+      letter-spacing: 0.3px;
+      cursor: pointer;
+      opacity: 0.45;
+      text-decoration: line-through;
+    }
+
+    .log-level-chip.active { opacity: 1; text-decoration: none; }
+    .log-level-chip.lvl-error.active { color: #f87171; border-color: rgba(248, 113, 113, 0.35); }
+    .log-level-chip.lvl-warn.active { color: #fbbf24; border-color: rgba(251, 191, 36, 0.35); }
+    .log-level-chip.lvl-info.active { color: var(--vscode-foreground); }
+  `;
+}
+
+export function logViewerScript(options: LogViewerOptions): string {
+  return `
+    const LOG_ID_PREFIX = ${JSON.stringify(options.idPrefix)};
+    const LOG_LINE_CAP = ${Math.max(100, Math.floor(options.lineCap))};
+    const LOG_CARD_SELECTOR = ${JSON.stringify(options.cardSelector)};
+    const logStates = new Map();
+
+    function logViewer(project) {
+      return document.getElementById(LOG_ID_PREFIX + project);
+    }
+
+    function newLogState(prev) {
+      return {
+        paused: false,
+        locked: false,
+        pending: [],
+        // Filter settings survive a stream restart
+        query: prev ? prev.query : '',
+        regex: prev ? prev.regex : false,
+        hidden: prev ? prev.hidden : new Set(),
+        matcher: prev ? prev.matcher : null,
+        matchIndex: -1,
+      };
+    }
+
+    function logState(project) {
+      let state = logStates.get(project);
+      if (!state) {
+        state = newLogState();
+        logStates.set(project, state);
+      }
+      return state;
+    }
+
+    // ── Level detection ──────────────────────────
+    const LEVEL_PATTERNS = [
+      ['error', /\\b(?:fatal|error|err|crit|critical|panic|emerg|alert)\\b|Traceback \\(most recent call last\\)|Unhandled(?:PromiseRejection)?/i],
+      ['warn', /\\b(?:warn|warning)\\b/i],
+      ['debug', /\\b(?:debug|trace|verbose)\\b/i],
+      ['info', /\\b(?:info|notice)\\b/i],
+    ];
+
+    function normalizeLevel(value) {
+      if (typeof value === 'number') {
+        // pino / bunyan numeric levels
+        if (value >= 50) return 'error';
+        if (value >= 40) return 'warn';
+        if (value >= 30) return 'info';
+        return 'debug';
+      }
+      // The earliest marker wins: "[INFO] retried after error" is info
+      const v = String(value);
+      let best = '';
+      let bestIndex = Infinity;
+      for (const [level, re] of LEVEL_PATTERNS) {
+        const m = re.exec(v);
+        if (m && m.index < bestIndex) {
+          best = level;
+          bestIndex = m.index;
+        }
+      }
+      return best;
+    }
+
+    function detectLogLevel(text) {
+      const trimmed = text.trim();
+      if (trimmed.startsWith('{')) {
+        try {
+          const obj = JSON.parse(trimmed);
+          const value = obj.level ?? obj.lvl ?? obj.severity ?? obj.levelname;
+          if (value !== undefined) return normalizeLevel(value);
+        } catch {
+          // Not JSON after all — fall through to text markers
+        }
+      }
+      const logfmt = /\\blevel=("?)(\\w+)\\1/i.exec(text);
+      if (logfmt) return normalizeLevel(logfmt[2]);
+      // Only look at the head of the line so a message that merely
+      // mentions "error" later on isn't flagged
+      return normalizeLevel(text.slice(0, 80));
+    }
+
+    // ── Filtering & highlighting ─────────────────
+    function escapeLogHtml(str) {
+      return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    }
+
+    function buildMatcher(query, regex) {
+      if (!query) return null;
+      const source = regex ? query : query.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&');
+      return new RegExp(source, 'gi');
+    }
+
+    function highlightHtml(text, matcher) {
+      if (!matcher) return escapeLogHtml(text);
+      let html = '';
+      let last = 0;
+      matcher.lastIndex = 0;
+      let m;
+      while ((m = matcher.exec(text)) !== null) {
+        if (m[0] === '') { matcher.lastIndex++; continue; }
+        html += escapeLogHtml(text.slice(last, m.index)) + '<mark>' + escapeLogHtml(m[0]) + '</mark>';
+        last = m.index + m[0].length;
+      }
+      return html + escapeLogHtml(text.slice(last));
+    }
+
+    // ── Stack frame links ────────────────────────
+    // "/app/src/routes/user.ts:42:13" (Node, Go, Rust…) and
+    // 'File "/app/main.py", line 42' (Python tracebacks)
+    const SOURCE_PATTERN = /(\\/(?:[\\w.@+-]+\\/)*[\\w.@+-]+\\.[A-Za-z]{1,6}):(\\d+)(?::(\\d+))?|File "(\\/[^"]+)", line (\\d+)/g;
+
+    function lineHtml(text, matcher) {
+      let html = '';
+      let last = 0;
+      SOURCE_PATTERN.lastIndex = 0;
+      let m;
+      while ((m = SOURCE_PATTERN.exec(text)) !== null) {
+        const path = m[1] || m[4];
+        const line = m[2] || m[5];
+        const column = m[3] || '1';
+        html += highlightHtml(text.slice(last, m.index), matcher)
+          + '<a class="log-source" href="#" title="Open ' + escapeLogHtml(path) + ':' + line + '"'
+          + ' data-path="' + escapeLogHtml(path) + '" data-line="' + line + '" data-column="' + column + '"'
+          + ' onclick="openLogSource(event, this)">' + highlightHtml(m[0], matcher) + '</a>';
+        last = m.index + m[0].length;
+      }
+      return html + highlightHtml(text.slice(last), matcher);
+    }
+
+    function openLogSource(event, link) {
+      event.preventDefault();
+      event.stopPropagation();
+      const viewer = link.closest('.log-viewer');
+      vscode.postMessage({
+        command: 'openSource',
+        project: viewer ? viewer.dataset.project : '',
+        path: link.dataset.path,
+        line: Number(link.dataset.line),
+        column: Number(link.dataset.column),
+      });
+    }
+
+    /** Apply the current filter + level toggles to one line element */
+    function applyLineFilter(el, state) {
+      const text = el.logText;
+      let visible = !(el.dataset.level && state.hidden.has(el.dataset.level));
+      if (visible && state.matcher) {
+        state.matcher.lastIndex = 0;
+        visible = state.matcher.test(text);
+      }
+      el.classList.toggle('hidden', !visible);
+      el.innerHTML = visible ? lineHtml(text, state.matcher) : escapeLogHtml(text);
+    }
+
+    function refilterLogs(project) {
+      const viewer = logViewer(project);
+      const output = viewer && viewer.querySelector('[data-log-output]');
+      if (!output) return;
+      const state = logState(project);
+      output.querySelectorAll('.log-line:not(.log-ended)').forEach((el) => applyLineFilter(el, state));
+      state.matchIndex = -1;
+      updateMatchCount(viewer, state);
+    }
+
+    function updateMatchCount(viewer, state) {
+      const count = viewer.querySelector('[data-log-count]');
+      if (!count) return;
+      if (!state.matcher) { count.textContent = ''; return; }
+      const total = viewer.querySelectorAll('[data-log-output] mark').length;
+      count.textContent = total === 0 ? '0' : (state.matchIndex >= 0 ? (state.matchIndex + 1) + '/' : '') + total;
+    }
+
+    function setLogFilter(project) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const input = viewer.querySelector('[data-log-filter]');
+      const state = logState(project);
+      state.query = input.value;
+      try {
+        state.matcher = buildMatcher(state.query, state.regex);
+        input.classList.remove('invalid');
+      } catch {
+        // Half-typed regex — keep showing everything until it compiles
+        state.matcher = null;
+        input.classList.add('invalid');
+      }
+      refilterLogs(project);
+    }
+
+    function toggleLogRegex(project) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = logState(project);
+      state.regex = !state.regex;
+      viewer.querySelector('[data-log-regex]').classList.toggle('active', state.regex);
+      setLogFilter(project);
+    }
+
+    function toggleLogLevel(project, level) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = logState(project);
+      if (state.hidden.has(level)) state.hidden.delete(level); else state.hidden.add(level);
+      const chip = viewer.querySelector('.log-level-chip[data-level="' + level + '"]');
+      if (chip) chip.classList.toggle('active', !state.hidden.has(level));
+      refilterLogs(project);
+    }
+
+    function stepLogMatch(project, delta) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = logState(project);
+      const marks = Array.from(viewer.querySelectorAll('[data-log-output] mark'));
+      if (marks.length === 0) return;
+      if (state.matchIndex >= 0 && marks[state.matchIndex]) marks[state.matchIndex].classList.remove('current');
+      state.matchIndex = (state.matchIndex + delta + marks.length) % marks.length;
+      const mark = marks[state.matchIndex];
+      mark.classList.add('current');
+      // Jumping to a match shouldn't be undone by the next streamed line
+      state.locked = true;
+      updateLogButtons(viewer, state);
+      mark.scrollIntoView({ block: 'center' });
+      updateMatchCount(viewer, state);
+    }
+
+    function logFilterKey(event, project) {
+      if (event.key === 'Enter') {
+        event.preventDefault();
+        stepLogMatch(project, event.shiftKey ? -1 : 1);
+      } else if (event.key === 'Escape') {
+        event.target.value = '';
+        setLogFilter(project);
+      }
+    }
+
+    function updateLogButtons(viewer, state) {
+      viewer.classList.toggle('paused', state.paused);
+      const pause = viewer.querySelector('[data-log-pause]');
+      if (pause) {
+        pause.classList.toggle('active', state.paused);
+        pause.title = state.paused ? 'Resume' : 'Pause';
+        const badge = pause.querySelector('.log-pending');
+        if (badge) badge.textContent = state.pending.length ? String(state.pending.length) : '';
+      }
+      const lock = viewer.querySelector('[data-log-lock]');
+      if (lock) {
+        lock.classList.toggle('active', state.locked);
+        lock.title = state.locked ? 'Auto-scroll off — click to follow' : 'Auto-scroll on — click to lock';
+      }
+    }
+
+    function renderLogLines(viewer, lines) {
+      const output = viewer.querySelector('[data-log-output]');
+      if (!output) return;
+      const placeholder = output.querySelector('.log-placeholder');
+      if (placeholder) placeholder.remove();
+
+      const state = logState(viewer.dataset.project);
+      const frag = document.createDocumentFragment();
+      for (const line of lines) {
+        const el = document.createElement('div');
+        const level = detectLogLevel(line);
+        el.className = level ? 'log-line lvl-' + level : 'log-line';
+        el.dataset.level = level;
+        el.logText = line;
+        applyLineFilter(el, state);
+        frag.appendChild(el);
+      }
+      output.appendChild(frag);
+
+      while (output.childElementCount > LOG_LINE_CAP) {
+        output.firstElementChild.remove();
+      }
+
+      if (state.matcher) updateMatchCount(viewer, state);
+      if (!state.locked) {
+        output.scrollTop = output.scrollHeight;
+      }
+    }
+
+    function logsStart(project) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = newLogState(logStates.get(project));
+      logStates.set(project, state);
+
+      viewer.dataset.project = project;
+      viewer.classList.add('open', 'streaming');
+      const output = viewer.querySelector('[data-log-output]');
+      if (output) {
+        output.innerHTML = '<span class="log-placeholder">Connecting to logs\\u2026</span>';
+        output.onscroll = () => {
+          const atBottom = output.scrollHeight - output.scrollTop - output.clientHeight < 8;
+          if (state.locked === atBottom) {
+            state.locked = !atBottom;
+            updateLogButtons(viewer, state);
+          }
+        };
+      }
+      updateLogButtons(viewer, state);
+    }
+
+    function logsAppend(project, lines) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = logState(project);
+      if (state.paused) {
+        state.pending.push(...lines);
+        if (state.pending.length > LOG_LINE_CAP) {
+          state.pending.splice(0, state.pending.length - LOG_LINE_CAP);
+        }
+        updateLogButtons(viewer, state);
+        return;
+      }
+      renderLogLines(viewer, lines);
+    }
+
+    function logsEnd(project, error) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      viewer.classList.remove('streaming');
+      const state = logState(project);
+      if (state.pending.length) {
+        renderLogLines(viewer, state.pending.splice(0));
+      }
+      const output = viewer.querySelector('[data-log-output]');
+      if (output) {
+        if (output.querySelector('.log-placeholder')) output.innerHTML = '';
+        const el = document.createElement('div');
+        el.className = 'log-line log-ended';
+        el.textContent = error ? '\\u2014 log stream ended: ' + error : '\\u2014 log stream ended';
+        output.appendChild(el);
+      }
+    }
+
+    function toggleLogPause(project) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = logState(project);
+      state.paused = !state.paused;
+      if (!state.paused && state.pending.length) {
+        renderLogLines(viewer, state.pending.splice(0));
+      }
+      updateLogButtons(viewer, state);
+    }
+
+    function toggleLogScrollLock(project) {
+      const viewer = logViewer(project);
+      if (!viewer) return;
+      const state = logState(project);
+      state.locked = !state.locked;
+      if (!state.locked) {
+        const output = viewer.querySelector('[data-log-output]');
+        if (output) output.scrollTop = output.scrollHeight;
+      }
+      updateLogButtons(viewer, state);
+    }
+
+    function closeLogs(project) {
+      const viewer = logViewer(project);
+      if (!viewer || !viewer.classList.contains('open')) return;
+      viewer.classList.remove('open', 'streaming', 'paused');
+      post('stopLogs', { project: project });
+    }
+
+    function logText(project) {
+      const viewer = logViewer(project);
+      const output = viewer && viewer.querySelector('[data-log-output]');
+      if (!output) return '';
+      return Array.from(output.querySelectorAll('.log-line:not(.log-ended)'))
+        .map((el) => el.logText)
+        .join('\\n');
+    }
+
+    /** Swap in re-rendered markup, keeping open viewers and expanded cards */
+    function patchContent(root, html) {
+      const expanded = new Set(
+        Array.from(root.querySelectorAll(LOG_CARD_SELECTOR + '.expanded')).map((card) => card.dataset.project)
+      );
+      const open = Array.from(root.querySelectorAll('.log-viewer.open'));
+
+      root.innerHTML = html;
+      // Cards that were already on screen shouldn't fade in again
+      root.classList.add('patched');
+
+      root.querySelectorAll(LOG_CARD_SELECTOR).forEach((card) => {
+        if (expanded.has(card.dataset.project)) card.classList.add('expanded');
+      });
+      for (const viewer of open) {
+        const project = viewer.id.slice(LOG_ID_PREFIX.length);
+        const fresh = document.getElementById(viewer.id);
+        if (fresh) {
+          fresh.replaceWith(viewer);
+        } else {
+          // The project is gone — nothing left to show its logs in
+          logStates.delete(project);
+          post('stopLogs', { project: project });
+        }
+      }
+    }
+
+    function handleLogMessage(msg) {
+      if (msg.command === 'logsStart') { logsStart(msg.project); return true; }
+      if (msg.command === 'logsAppend') { logsAppend(msg.project, msg.lines); return true; }
+      if (msg.command === 'logsEnd') { logsEnd(msg.project, msg.error); return true; }
+      return false;
+    }
+  `;
+}
@@ -6,16 +6,66 @@
  *
  * Cards are collapsed by default. Click to expand and see:
  * - System Status-style metric tiles (CPU, Memory, Uptime, Network)
- * - Inline log viewer (no terminal needed)
- * - Deploy history
+ * - Inline log viewer (live-streamed, no terminal needed)
+ * - Deploy history (sortable, click a row for details + commit link)
+ * - Branch previews (URL + QR, promote, tear down)
+ * - Environment variables (secrets masked until revealed)
+ * - Custom domains (DNS records to create, verification + TLS state)
  * - Management actions
  * - Danger zone
  */
 
 import * as vscode from "vscode";
-import { statusDetail, listProjects, getLogs, type StatusDetail, type ListProject } from "./cli.js";
+import { DEPLOY_PHASES, type StatusDetail, type ListProject, type DeployPhase, type EnvVar, type DomainStatus } from "./cli.js";
+import { formatDuration, formatRelativeTime, shortSha } from "./format.js";
+import { openCommit } from "./git.js";
+import { openContainerSource } from "./pathmap.js";
+import { boundProjectNames, rememberDirectories } from "./binding.js";
+import { groupPreviews, isNestedPreview } from "./previews.js";
+import { MASK, addEnvVar, editEnvVar, importDotEnv, isSecret, removeEnvVar } from "./env.js";
+import { addCustomDomain, formatDnsRecords, pollDomain, removeCustomDomain } from "./domains.js";
+import { LogStreamManager, getLogLineCap } from "./logstream.js";
+import { logToolsHtml, logViewerScript, logViewerStyles } from "./logviewer.js";
+import { RECOVERY_COMMANDS, errorHelp } from "./errors.js";
+import { getDomains, getEnv, getProjects, getStatusDetail, onProjectsChange } from "./store.js";
+import { hasCapability } from "./capabilities.js";
+import { rollbackTargets } from "./deploy.js";
+
+/** In-flight deploy shown in the progress banner */
+export interface PanelDeployProgress {
+  project: string;
+  phase?: DeployPhase;
+  label: string;
+}
+
+/** Per-project data loaded alongside StatusDetail (undefined = failed to load) */
+interface ProjectExtras {
+  /** Card is expanded — env and domains are only loaded for these */
+  open?: boolean;
+  env?: EnvVar[];
+  domains?: DomainStatus[];
+  previews?: ListProject[];
+  /** Bound to one of this workspace's folders */
+  current?: boolean;
+}
 
 let currentPanel: vscode.WebviewPanel | undefined;
+let logStreams: LogStreamManager | undefined;
+let deployProgress: PanelDeployProgress | undefined;
+/** The projects page is loaded, so refreshes can patch it in place */
+let showsProjects = false;
+/** Projects whose card is expanded in the webview */
+const openCards = new Set<string>();
+
+/** Update the dashboard's deploy banner — pass undefined once the deploy ends */
+export function setPanelDeployProgress(progress: PanelDeployProgress | undefined): void {
+  deployProgress = progress;
+  if (currentPanel) {
+    currentPanel.webview.postMessage(
+      progress ? { command: "deployProgress", ...progress } : { command: "deployDone" }
+    );
+  }
+}
 
 export async function showPanel(extensionUri: vscode.Uri): Promise<void> {
   // Reuse existing panel if open
@@ -37,8 +87,21 @@ export async function showPanel(extensionUri: vscode.Uri): Promise<void> {
 
   currentPanel.iconPath = new vscode.ThemeIcon("rocket");
 
+  const panel = currentPanel;
+  logStreams = new LogStreamManager((message) => panel.webview.postMessage(message));
+
+  // Re-render after actions (deploy, stop, …) — not on every poll
+  const storeSubscription = onProjectsChange((change) => {
+    if (change.reason === "invalidated") { refreshPanel(panel); }
+  });
+
   currentPanel.onDidDispose(() => {
+    storeSubscription.dispose();
+    logStreams?.dispose();
+    logStreams = undefined;
     currentPanel = undefined;
+    showsProjects = false;
+    openCards.clear();
   });
 
   // Handle messages from webview
@@ -47,33 +110,94 @@ export async function showPanel(extensionUri: vscode.Uri): Promise<void> {
       case "deploy":
         vscode.commands.executeCommand("buildandship.deploy");
         break;
+      case "cancelDeploy":
+        vscode.commands.executeCommand("buildandship.cancelDeploy", message.project || undefined);
+        break;
       case "openUrl":
         vscode.env.openExternal(vscode.Uri.parse(message.url));
         break;
-      case "viewLogs": {
-        // Fetch logs and send back to webview for inline display
-        const logs = await getLogs(message.project, 150);
-        if (currentPanel) {
-          currentPanel.webview.postMessage({
-            command: "logsData",
-            project: message.project,
-            logs,
-          });
-        }
+      case "viewLogs":
+        // Follow logs and stream new lines into the inline viewer
+        logStreams?.start(message.project, 150);
+        break;
+      case "stopLogs":
+        logStreams?.stop(message.project);
+        break;
+      case "cardOpened": {
+        // Env and domains cost a CLI call each — fetch them once someone looks
+        openCards.add(message.project);
+        const html = await renderCardExtras(message.project);
+        currentPanel?.webview.postMessage({ command: "extras", project: message.project, html });
         break;
       }
+      case "cardClosed":
+        openCards.delete(message.project);
+        break;
       case "stop":
         vscode.commands.executeCommand("buildandship.stop", message.project);
-        setTimeout(() => currentPanel && refreshPanel(currentPanel), 3000);
         break;
       case "restart":
         vscode.commands.executeCommand("buildandship.restart", message.project);
-        setTimeout(() => currentPanel && refreshPanel(currentPanel), 5000);
         break;
       case "destroy":
         vscode.commands.executeCommand("buildandship.destroy", message.project);
-        setTimeout(() => currentPanel && refreshPanel(currentPanel), 3000);
         break;
+      case "openSource":
+        await openContainerSource(message.project, message.path, message.line, message.column);
+        break;
+      case "openCommit":
+        await openCommit(message.sha, message.directory || undefined, message.repo || undefined);
+        break;
+      case "rollback":
+        await vscode.commands.executeCommand("buildandship.rollback", message.project, message.deployId);
+        break;
+      case "envAdd":
+        await addEnvVar(message.project);
+        break;
+      case "envEdit":
+        await editEnvVar(message.project, message.key);
+        break;
+      case "envRemove":
+        await removeEnvVar(message.project, message.key);
+        break;
+      case "envImport":
+        await importDotEnv(message.project);
+        break;
+      case "domainAdd":
+        await addCustomDomain(message.project);
+        break;
+      case "domainRemove":
+        await removeCustomDomain(message.project, message.domain);
+        break;
+      case "domainCheck": {
+        // Invalidates the store once the check settles, which re-renders
+        await pollDomain(message.project, message.domain, (update, serving) => {
+          currentPanel?.webview.postMessage({ command: "domainStatus", project: message.project, status: update, serving });
+        });
+        break;
+      }
+      case "deployPreview":
+        vscode.commands.executeCommand("buildandship.deployPreview");
+        break;
+      case "promotePreview":
+        await vscode.commands.executeCommand("buildandship.promotePreview", message.project);
+        break;
+      case "cleanUpPreviews":
+        await vscode.commands.executeCommand("buildandship.cleanUpPreviews", message.project);
+        break;
+      case "copyRecords":
+        if (message.text) {
+          await vscode.env.clipboard.writeText(message.text);
+          vscode.window.setStatusBarMessage("$(check) DNS records copied", 4000);
+        }
+        break;
+      case "envReveal": {
+        // Secret values stay out of the page until asked for
+        const vars = await getEnv(message.project).catch(() => [] as EnvVar[]);
+        const value = vars.find((v) => v.key === message.key)?.value ?? "";
+        currentPanel?.webview.postMessage({ command: "envValue", project: message.project, key: message.key, value });
+        break;
+      }
       case "copyLogs": {
         if (message.text) {
           await vscode.env.clipboard.writeText(message.text);
@@ -82,7 +206,15 @@ export async function showPanel(extensionUri: vscode.Uri): Promise<void> {
         break;
       }
       case "refresh":
-        await refreshPanel(currentPanel!);
+        // Through the store, so the other views pick up the fresh state too
+        vscode.commands.executeCommand("buildandship.refresh");
+        break;
+      case "recover":
+        // Only the commands an error page offers — never arbitrary ones
+        // (each one invalidates the store when it's done, which re-renders)
+        if (RECOVERY_COMMANDS.has(message.action)) {
+          await vscode.commands.executeCommand(message.action);
+        }
         break;
     }
   });
@@ -92,18 +224,34 @@ export async function showPanel(extensionUri: vscode.Uri): Promise<void> {
 
 async function refreshPanel(panel: vscode.WebviewPanel): Promise<void> {
   try {
-    const projects = await listProjects();
-
-    // Get details for each project (in parallel)
-    const details = await Promise.all(
-      projects.map((p) =>
-        statusDetail(p.name).catch(() => null)
-      )
+    const projects = await getProjects();
+
+    // Details for every project; environment and domains only for expanded cards (in parallel)
+    const [details, loaded] = await Promise.all([
+      Promise.all(projects.map((p) => getStatusDetail(p.name).catch(() => null))),
+      Promise.all(projects.map((p) => openCards.has(p.name) ? loadExtras(p.name) : {})),
+    ]);
+    rememberDirectories(details);
+    const previews = groupPreviews(projects);
+    const current = await boundProjectNames(projects);
+    const extras = new Map<string, ProjectExtras>(
+      projects.map((p, i) => [p.name, { open: openCards.has(p.name), ...loaded[i], previews: previews.get(p.name), current: current.has(p.name) }])
     );
 
-    panel.webview.html = getHtml(projects, details.filter(Boolean) as StatusDetail[]);
+    const body = renderBody(projects, details.filter(Boolean) as StatusDetail[], extras);
+    if (showsProjects) {
+      // Patch in place — open log viewers (and their followers) survive
+      await panel.webview.postMessage({ command: "render", html: body });
+      return;
+    }
+    // A fresh document drops every open viewer, so stop their followers first
+    logStreams?.stopAll();
+    panel.webview.html = getHtml(body);
+    showsProjects = true;
   } catch (err: any) {
-    panel.webview.html = getErrorHtml(err.message);
+    logStreams?.stopAll();
+    panel.webview.html = getErrorHtml(err);
+    showsProjects = false;
   }
 }
 
@@ -116,11 +264,280 @@ function escapeHtml(str: string): string {
     .replace(/'/g, "&#039;");
 }
 
-function getHtml(projects: ListProject[], details: StatusDetail[]): string {
-  const liveCount = projects.filter((p) => p.status === "live").length;
-  const totalCount = projects.length;
+/** Show the dashboard banner in its cancelled state, then let it fade out */
+export function markPanelDeployCancelled(projectName: string): void {
+  deployProgress = undefined;
+  if (currentPanel) {
+    currentPanel.webview.postMessage({ command: "deployCancelled", project: projectName });
+  }
+}
+
+function renderDeployBanner(): string {
+  const current = deployProgress?.phase ? DEPLOY_PHASES.indexOf(deployProgress.phase) : -1;
+  const steps = DEPLOY_PHASES.map((phase, i) => {
+    const state = i < current ? "done" : i === current ? "current" : "";
+    return `<span class="deploy-step ${state}" data-phase="${phase}">${phase}</span>`;
+  }).join("");
+  const title = deployProgress ? `${deployProgress.project}: ${deployProgress.label}\u2026` : "";
+
+  return `
+    <div class="deploy-banner ${deployProgress ? "active" : ""}" id="deploy-banner" data-project="${escapeHtml(deployProgress?.project ?? "")}">
+      <span class="deploy-spinner"></span>
+      <span class="deploy-banner-title" id="deploy-banner-title">${escapeHtml(title)}</span>
+      <div class="deploy-steps">${steps}</div>
+      <button class="deploy-cancel" onclick="cancelBannerDeploy()" title="Cancel deploy">Cancel</button>
+    </div>`;
+}
 
-  const projectCards = details.map((d, idx) => {
+/** Sortable deploy history table; each row expands into a detail view */
+function renderDeployHistory(d: StatusDetail, project?: ListProject): string {
+  const deploys = d.deploys ?? [];
+  const repo = project?.auto_deploy?.repo ?? "";
+
+  const targets = hasCapability("rollback") ? rollbackTargets(deploys) : [];
+
+  const rows = deploys.map((dep) => {
+    const canRollBack = targets.includes(dep);
+    const cls = dep.status === "live" || dep.status === "success" ? "dep-ok" : dep.status === "failed" ? "dep-fail" : "dep-other";
+    const created = new Date(dep.created_at).getTime() || 0;
+    const commit = dep.commit_sha
+      ? `<a class="commit-link" href="#" data-sha="${escapeHtml(dep.commit_sha)}" data-directory="${escapeHtml(d.directory)}" data-repo="${escapeHtml(repo)}" onclick="event.stopPropagation(); openCommit(this)"><code>${escapeHtml(shortSha(dep.commit_sha))}</code></a>`
+      : "\u2014";
+
+    return `
+        <tr class="history-row ${cls}" data-status="${escapeHtml(dep.status)}" data-branch="${escapeHtml(dep.branch ?? "")}" data-duration="${dep.duration_ms ?? 0}" data-created="${created}" onclick="toggleDeployDetail(this)">
+          <td><span class="dep-dot-mini"></span>${escapeHtml(dep.status)}</td>
+          <td>${commit}</td>
+          <td>${escapeHtml(dep.branch ?? "\u2014")}</td>
+          <td class="num">${formatDuration(dep.duration_ms)}</td>
+          <td title="${escapeHtml(new Date(dep.created_at).toLocaleString())}">${escapeHtml(formatRelativeTime(dep.created_at))}</td>
+        </tr>
+        <tr class="history-detail">
+          <td colspan="5">
+            <dl class="deploy-detail">
+              <dt>Deploy</dt><dd><code>${escapeHtml(dep.id)}</code></dd>
+              <dt>Started</dt><dd>${escapeHtml(new Date(dep.created_at).toLocaleString())}</dd>
+              <dt>Duration</dt><dd>${formatDuration(dep.duration_ms)}</dd>
+              <dt>Branch</dt><dd>${escapeHtml(dep.branch ?? "\u2014")}</dd>
+              <dt>Commit</dt><dd>${dep.commit_sha ? `${commit} <span class="detail-hint">${repo ? "local history or GitHub" : "local history"}</span>` : "\u2014"}</dd>
+              ${dep.error ? `<dt>Error</dt><dd><pre class="deploy-error">${escapeHtml(dep.error)}</pre></dd>` : ""}
+            </dl>
+            ${canRollBack ? `<button class="rollback-btn" data-project="${escapeHtml(d.name)}" data-deploy="${escapeHtml(dep.id)}" onclick="event.stopPropagation(); rollbackTo(this)">Roll back to this</button>` : ""}
+          </td>
+        </tr>`;
+  }).join("");
+
+  return `
+      <div class="deploys-section">
+        <h3 class="section-title">Ship Log</h3>
+        <span class="ship-metric">${formatDuration(deploys[0].duration_ms)}</span>
+        <table class="deploys-table">
+          <thead>
+            <tr>
+              <th onclick="sortHistory(this, 'status')">Status</th>
+              <th>Commit</th>
+              <th onclick="sortHistory(this, 'branch')">Branch</th>
+              <th onclick="sortHistory(this, 'duration')">Duration</th>
+              <th class="sorted desc" onclick="sortHistory(this, 'created')">When</th>
+            </tr>
+          </thead>
+          <tbody>${rows}</tbody>
+        </table>
+      </div>`;
+}
+
+/** A project's environment and domains, as far as the CLI can manage them */
+async function loadExtras(project: string): Promise<Pick<ProjectExtras, "env" | "domains">> {
+  const [env, domains] = await Promise.all([
+    hasCapability("env") ? getEnv(project).catch(() => undefined) : undefined,
+    hasCapability("domains") ? getDomains(project).catch(() => undefined) : undefined,
+  ]);
+  return { env, domains };
+}
+
+/** Domains + environment sections (hidden when the CLI can't manage them) */
+function renderExtras(d: StatusDetail, extras: Pick<ProjectExtras, "env" | "domains">): string {
+  let html = "";
+  if (hasCapability("domains")) {
+    html += renderDomainsSection(d, extras.domains);
+  }
+  if (hasCapability("env")) {
+    html += renderEnvSection(d.name, extras.env);
+  }
+  return html;
+}
+
+/** The sections a card loads once it's expanded (see the cardOpened message) */
+async function renderCardExtras(project: string): Promise<string> {
+  const [detail, extras] = await Promise.all([getStatusDetail(project).catch(() => null), loadExtras(project)]);
+  return detail ? renderExtras(detail, extras) : "";
+}
+
+function renderEnvSection(projectName: string, vars: EnvVar[] | undefined): string {
+  const eProject = escapeHtml(projectName);
+  let body: string;
+
+  if (!vars) {
+    body = `<p class="env-empty">Couldn't load variables for this project.</p>`;
+  } else if (vars.length === 0) {
+    body = `<p class="env-empty">No variables yet. Your app is running on defaults.</p>`;
+  } else {
+    const rows = [...vars].sort((a, b) => a.key.localeCompare(b.key)).map((v) => {
+      const eKey = escapeHtml(v.key);
+      const secret = isSecret(v);
+      return `
+          <tr class="env-row${secret ? " secret" : ""}" data-project="${eProject}" data-key="${eKey}">
+            <td><code>${eKey}</code></td>
+            <td class="env-value">${secret ? MASK : escapeHtml(v.value)}</td>
+            <td class="env-row-actions">
+              ${secret ? `<button class="env-icon-btn" onclick="revealEnv(this)" title="Reveal value">
+                <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor"><path d="M16 8s-3-5.5-8-5.5S0 8 0 8s3 5.5 8 5.5S16 8 16 8zM1.173 8a13.133 13.133 0 0 1 1.66-2.043C4.12 4.668 5.88 3.5 8 3.5c2.12 0 3.879 1.168 5.168 2.457A13.133 13.133 0 0 1 14.828 8c-.058.087-.122.183-.195.288-.335.48-.83 1.12-1.465 1.755C11.879 11.332 10.119 12.5 8 12.5c-2.12 0-3.879-1.168-5.168-2.457A13.134 13.134 0 0 1 1.172 8z"/><path d="M8 5.5a2.5 2.5 0 1 0 0 5 2.5 2.5 0 0 0 0-5zM4.5 8a3.5 3.5 0 1 1 7 0 3.5 3.5 0 0 1-7 0z"/></svg>
+              </button>` : ""}
+              <button class="env-icon-btn" onclick="envAction(this, 'envEdit')" title="Edit value">
+                <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor"><path d="M12.146.146a.5.5 0 0 1 .708 0l3 3a.5.5 0 0 1 0 .708l-10 10a.5.5 0 0 1-.168.11l-5 2a.5.5 0 0 1-.65-.65l2-5a.5.5 0 0 1 .11-.168l10-10zM11.207 2.5 13.5 4.793 14.793 3.5 12.5 1.207 11.207 2.5zm1.586 3L10.5 3.207 4 9.707V10h.5a.5.5 0 0 1 .5.5v.5h.5a.5.5 0 0 1 .5.5v.5h.293l6.5-6.5z"/></svg>
+              </button>
+              <button class="env-icon-btn" onclick="envAction(this, 'envRemove')" title="Remove">
+                <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor"><path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/></svg>
+              </button>
+            </td>
+          </tr>`;
+    }).join("");
+
+    body = `
+        <table class="deploys-table env-table">
+          <thead><tr><th>Name</th><th>Value</th><th></th></tr></thead>
+          <tbody>${rows}</tbody>
+        </table>`;
+  }
+
+  return `
+      <div class="deploys-section env-section" data-project="${eProject}">
+        <div class="section-header">
+          <h3 class="section-title">Environment</h3>
+          <div class="section-actions">
+            <button class="rollback-btn" onclick="envAction(this, 'envAdd')">Add Variable</button>
+            <button class="rollback-btn" onclick="envAction(this, 'envImport')">Import .env</button>
+          </div>
+        </div>
+        ${body}
+        <p class="detail-hint">Changes apply on the next restart.</p>
+      </div>`;
+}
+
+function domainBadges(status: DomainStatus): string {
+  if (status.tls === "unknown") {
+    return `<span class="domain-badge pending">Not checked yet</span>`;
+  }
+  const dns = status.verified
+    ? `<span class="domain-badge ok">DNS verified</span>`
+    : `<span class="domain-badge pending">DNS pending</span>`;
+  const tls = status.tls === "active"
+    ? `<span class="domain-badge ok">TLS active</span>`
+    : status.tls === "error"
+      ? `<span class="domain-badge fail">TLS error</span>`
+      : `<span class="domain-badge pending">TLS ${escapeHtml(status.tls)}</span>`;
+  return dns + tls;
+}
+
+function renderDomainsSection(d: StatusDetail, domains: DomainStatus[] | undefined): string {
+  const eProject = escapeHtml(d.name);
+  // CLI without `domains list` — fall back to the names in StatusDetail
+  const list: DomainStatus[] = domains ?? (d.custom_domains ?? []).map((domain) => ({ domain, verified: false, tls: "unknown" }));
+
+  const rows = list.map((status) => {
+    const eDomain = escapeHtml(status.domain);
+    const records = status.records ?? [];
+    const recordTable = !status.verified && records.length > 0 ? `
+          <p class="detail-hint">Create these records at your DNS provider:</p>
+          <table class="deploys-table dns-table">
+            <thead><tr><th>Type</th><th>Name</th><th>Value</th></tr></thead>
+            <tbody>${records.map((r) => `<tr><td>${escapeHtml(r.type)}</td><td><code>${escapeHtml(r.name)}</code></td><td><code>${escapeHtml(r.value)}</code></td></tr>`).join("")}</tbody>
+          </table>
+          <button class="rollback-btn" data-records="${escapeHtml(formatDnsRecords(records))}" onclick="copyRecords(this)">Copy Records</button>` : "";
+
+    return `
+        <div class="domain-row" data-domain="${eDomain}">
+          <div class="domain-main">
+            <a class="commit-link" href="#" onclick="event.stopPropagation(); post('openUrl', { url: 'https://${eDomain}' })">${eDomain}</a>
+            <span class="domain-badges">${domainBadges(status)}</span>
+            <span class="domain-checking" title="Checking"></span>
+            <span class="section-actions">
+              <button class="rollback-btn" onclick="domainAction(this, 'domainCheck')">Re-check</button>
+              <button class="env-icon-btn" onclick="domainAction(this, 'domainRemove')" title="Remove domain">
+                <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor"><path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/></svg>
+              </button>
+            </span>
+          </div>
+          ${status.error ? `<pre class="deploy-error">${escapeHtml(status.error)}</pre>` : ""}
+          ${recordTable}
+        </div>`;
+  }).join("");
+
+  return `
+      <div class="deploys-section domains-section" data-project="${eProject}">
+        <div class="section-header">
+          <h3 class="section-title">Domains</h3>
+          <div class="section-actions">
+            <button class="rollback-btn" onclick="domainAction(this, 'domainAdd')">Add Domain</button>
+          </div>
+        </div>
+        ${rows || `<p class="env-empty">No custom domains. Bring your own and we'll handle the certificate.</p>`}
+      </div>`;
+}
+
+function renderPreviewsSection(parent: string, previews: ListProject[], current: boolean): string {
+  const eParent = escapeHtml(parent);
+
+  const rows = previews.map((pv) => {
+    const ePreview = escapeHtml(pv.name);
+    const statusClass = pv.status === "live" ? "live" : pv.status === "failed" ? "failed" : "stopped";
+    const url = pv.public_url ?? "";
+    return `
+        <div class="domain-row preview-row">
+          <div class="domain-main">
+            <span class="dot ${statusClass}"></span>
+            <code class="preview-branch" title="${ePreview}">${escapeHtml(pv.branch ?? pv.name)}</code>
+            ${url
+              ? `<a class="commit-link" href="#" onclick="event.stopPropagation(); post('openUrl', { url: '${escapeHtml(url)}' })">${escapeHtml(url.replace("https://", ""))}</a>`
+              : `<span class="chip-status ${statusClass}">${escapeHtml(pv.status)}</span>`}
+            <span class="section-actions">
+              ${url ? `<button class="rollback-btn" onclick="this.closest('.preview-row').querySelector('.qr-panel').classList.toggle('open')">QR</button>` : ""}
+              <button class="rollback-btn" onclick="post('promotePreview', { project: '${ePreview}' })" title="Serve this build from ${eParent}">Promote</button>
+              <button class="rollback-btn" onclick="post('destroy', { project: '${ePreview}' })">Tear Down</button>
+            </span>
+          </div>
+          ${url ? `
+          <div class="qr-panel">
+            <div class="qr-frame">
+              <img src="https://api.qrserver.com/v1/create-qr-code/?size=140x140&bgcolor=ffffff&color=000000&data=${encodeURIComponent(url)}" alt="QR" onerror="this.closest('.qr-panel').style.display='none'" />
+            </div>
+            <span class="qr-label">Show the team.</span>
+          </div>` : ""}
+        </div>`;
+  }).join("");
+
+  return `
+      <div class="deploys-section previews-section">
+        <div class="section-header">
+          <h3 class="section-title">Previews</h3>
+          <div class="section-actions">
+            ${current ? `<button class="rollback-btn" onclick="post('deployPreview')">Preview This Branch</button>` : ""}
+            ${previews.length ? `<button class="rollback-btn" onclick="post('cleanUpPreviews', { project: '${eParent}' })">Clean Up Stale</button>` : ""}
+          </div>
+        </div>
+        ${rows || `<p class="env-empty">No previews. Ship a branch without touching production.</p>`}
+      </div>`;
+}
+
+/** The page inside #root — swapped in place on later refreshes (see patchContent in logviewer.ts) */
+function renderBody(projects: ListProject[], details: StatusDetail[], extras: Map<string, ProjectExtras>): string {
+  // Previews show inside their parent's card, not as cards of their own
+  const topLevel = projects.filter((p) => !isNestedPreview(p, projects));
+  const liveCount = topLevel.filter((p) => p.status === "live").length;
+  const totalCount = topLevel.length;
+  const cardDetails = details.filter((d) => topLevel.some((p) => p.name === d.name));
+
+  const projectCards = cardDetails.map((d, idx) => {
     const project = projects.find((p) => p.name === d.name);
     const isLive = d.status === "live";
     const isFailed = d.status === "failed";
@@ -260,30 +677,43 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
           <span class="log-label">
             <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor" opacity="0.5"><path d="M14 1a1 1 0 0 1 1 1v12a1 1 0 0 1-1 1H2a1 1 0 0 1-1-1V2a1 1 0 0 1 1-1h12zM2 0a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V2a2 2 0 0 0-2-2H2z"/><path d="M5 4h6v1H5V4zm0 3h6v1H5V7zm0 3h4v1H5v-1z"/></svg>
             Logs &mdash; ${eName}
+            <span class="log-live-dot" title="Live"></span>
           </span>
           <div class="log-actions">
+            <button class="log-action-btn" data-log-pause onclick="event.stopPropagation(); toggleLogPause('${eName}')" title="Pause">
+              <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor"><path d="M5.5 3.5A1.5 1.5 0 0 1 7 5v6a1.5 1.5 0 0 1-3 0V5a1.5 1.5 0 0 1 1.5-1.5zm5 0A1.5 1.5 0 0 1 12 5v6a1.5 1.5 0 0 1-3 0V5a1.5 1.5 0 0 1 1.5-1.5z"/></svg>
+              <span class="log-pending"></span>
+            </button>
+            <button class="log-action-btn" data-log-lock onclick="event.stopPropagation(); toggleLogScrollLock('${eName}')" title="Auto-scroll on — click to lock">
+              <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor"><path d="M8 1a.5.5 0 0 1 .5.5v11.793l3.146-3.147a.5.5 0 0 1 .708.708l-4 4a.5.5 0 0 1-.708 0l-4-4a.5.5 0 0 1 .708-.708L7.5 13.293V1.5A.5.5 0 0 1 8 1z"/></svg>
+            </button>
             <button class="log-action-btn" onclick="event.stopPropagation(); copyLogs('${eName}')" title="Copy logs">
               <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor"><path d="M4 1.5H3a2 2 0 0 0-2 2V14a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V3.5a2 2 0 0 0-2-2h-1v1h1a1 1 0 0 1 1 1V14a1 1 0 0 1-1 1H3a1 1 0 0 1-1-1V3.5a1 1 0 0 1 1-1h1v-1z"/><path d="M9.5 1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-3a.5.5 0 0 1-.5-.5v-1a.5.5 0 0 1 .5-.5h3zm-3-1A1.5 1.5 0 0 0 5 1.5v1A1.5 1.5 0 0 0 6.5 4h3A1.5 1.5 0 0 0 11 2.5v-1A1.5 1.5 0 0 0 9.5 0h-3z"/></svg>
             </button>
-            <button class="log-action-btn" onclick="event.stopPropagation(); document.getElementById('panel-logs-${eName}').classList.remove('open')" title="Close logs">
+            <button class="log-action-btn" onclick="event.stopPropagation(); closeLogs('${eName}')" title="Close logs">
               <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor"><path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/></svg>
             </button>
           </div>
         </div>
-        <pre class="log-content"><span class="log-placeholder">Hit "Logs" to see what your app is thinking...</span></pre>
+        ${logToolsHtml(eName)}
+        <pre class="log-content" data-log-output><span class="log-placeholder">Hit "Logs" to see what your app is thinking...</span></pre>
       </div>`;
 
-    // Latest deploy (single metric)
+    // Deploy history
     if (d.deploys && d.deploys.length > 0) {
-      const latest = d.deploys[0];
-      const duration = latest.duration_ms ? `${(latest.duration_ms / 1000).toFixed(1)}s` : "\u2014";
-      card += `
-      <div class="deploys-section">
-        <h3 class="section-title">Ship Log</h3>
-        <span class="ship-metric">${duration}</span>
-      </div>`;
+      card += renderDeployHistory(d, project);
+    }
+
+    // Branch previews
+    const { previews = [], current = false } = extras.get(d.name) ?? {};
+    if (hasCapability("previews") && (previews.length > 0 || current)) {
+      card += renderPreviewsSection(d.name, previews, current);
     }
 
+    // Domains + environment — filled in once the card is expanded
+    const cardExtras = extras.get(d.name);
+    card += `<div class="card-extras" data-project="${eName}">${cardExtras?.open ? renderExtras(d, cardExtras) : ""}</div>`;
+
     // Public badge
     if (project?.tunnel_active) {
       card += `<div class="tunnel-badge"><span class="tunnel-dot"></span>Public \u2014 The world can see it</div>`;
@@ -308,6 +738,49 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
     return card;
   }).join("");
 
+  return /* html */ `
+  <div class="topbar">
+    <div class="topbar-left">
+      <span class="brand">Build <span class="brand-accent">&amp;</span> Ship</span>
+      <div class="stats">
+        <span class="stat-pill"><span class="stat-mini-dot"></span>${liveCount} live</span>
+        <span class="stat-pill stat-total">${totalCount} projects</span>
+      </div>
+    </div>
+    <div class="topbar-right">
+      <button class="topbar-btn" onclick="post('refresh')">
+        <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor"><path d="M11.534 7h3.932a.25.25 0 0 1 .192.41l-1.966 2.36a.25.25 0 0 1-.384 0l-1.966-2.36a.25.25 0 0 1 .192-.41zm-11 2h3.932a.25.25 0 0 0 .192-.41L2.692 6.23a.25.25 0 0 0-.384 0L.342 8.59A.25.25 0 0 0 .534 9z"/><path d="M8 3c-1.552 0-2.94.707-3.857 1.818a.5.5 0 1 1-.771-.636A6.002 6.002 0 0 1 13.917 7H12.9A5.002 5.002 0 0 0 8 3zM3.1 9a5.002 5.002 0 0 0 8.757 2.182.5.5 0 1 1 .771.636A6.002 6.002 0 0 1 2.083 9H3.1z"/></svg>
+        Refresh
+      </button>
+      <button class="topbar-btn topbar-btn-primary" onclick="post('deploy')">Deploy</button>
+    </div>
+  </div>
+
+  <div class="content">
+    ${renderDeployBanner()}
+
+    ${totalCount === 0 ? `
+      <div class="empty">
+        <div class="empty-emoji">\uD83D\uDE80</div>
+        <h2>It's quiet in here...</h2>
+        <p>Open a project folder and hit deploy.<br>We detect your framework, containerize it, and hand you a live URL.<br>Like magic, but with Docker.</p>
+        <button class="empty-btn" onclick="post('deploy')">\uD83D\uDE80 Ship It</button>
+      </div>
+    ` : `<div class="card-grid">${projectCards}</div>`}
+
+    <div class="footer">
+      <a href="#" onclick="post('openUrl', { url: 'https://buildandship.it' })">buildandship.it</a>
+      <span>\u00B7</span>
+      <a href="#" onclick="post('openUrl', { url: 'https://buildandship.it/support' })">Support</a>
+      <span>\u00B7</span>
+      <span>Your hardware. Your rules. Zero cloud bills.</span>
+    </div>
+  </div>
+`;
+}
+
+/** The whole document — set once, after which refreshes only patch #root */
+function getHtml(body: string): string {
   return /* html */ `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -325,6 +798,10 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
       -moz-osx-font-smoothing: grayscale;
     }
 
+    /* Patched in place on refresh — layout as if it weren't there */
+    #root { display: contents; }
+    .card-extras { display: contents; }
+
     /* ── Top bar ──────────────────────────── */
 
     .topbar {
@@ -425,6 +902,81 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
       padding: 20px 28px 40px;
     }
 
+    /* ── Deploy progress banner ───────────── */
+
+    .deploy-banner {
+      display: none;
+      align-items: center;
+      gap: 10px;
+      padding: 10px 14px;
+      border-radius: 8px;
+      background: rgba(0, 120, 212, 0.06);
+      border: 1px solid rgba(0, 120, 212, 0.2);
+      margin-bottom: 16px;
+      animation: slideUp 0.2s ease-out;
+    }
+
+    .deploy-banner.active { display: flex; }
+
+    .deploy-spinner {
+      width: 12px; height: 12px;
+      border-radius: 50%;
+      border: 2px solid rgba(0, 120, 212, 0.25);
+      border-top-color: #0078d4;
+      animation: spin 0.8s linear infinite;
+      flex-shrink: 0;
+    }
+
+    @keyframes spin { to { transform: rotate(360deg); } }
+
+    .deploy-banner-title {
+      font-size: 12.5px;
+      font-weight: 600;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .deploy-steps {
+      display: flex;
+      gap: 4px;
+      margin-left: auto;
+    }
+
+    .deploy-step {
+      font-size: 9.5px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.4px;
+      padding: 2px 8px;
+      border-radius: 3px;
+      color: var(--vscode-descriptionForeground);
+      background: var(--vscode-badge-background);
+      opacity: 0.5;
+    }
+
+    .deploy-step.done { opacity: 1; background: rgba(74, 222, 128, 0.12); color: #4ade80; }
+    .deploy-step.current { opacity: 1; background: rgba(0, 120, 212, 0.18); color: var(--vscode-foreground); }
+
+    .deploy-cancel {
+      padding: 4px 10px;
+      border: 1px solid rgba(248, 113, 113, 0.25);
+      border-radius: 6px;
+      background: transparent;
+      color: #f87171;
+      font-family: inherit;
+      font-size: 11px;
+      font-weight: 600;
+      cursor: pointer;
+      transition: all 0.15s;
+    }
+
+    .deploy-cancel:hover { background: rgba(248, 113, 113, 0.08); border-color: rgba(248, 113, 113, 0.4); }
+
+    .deploy-banner.cancelled { background: rgba(100, 116, 139, 0.06); border-color: rgba(100, 116, 139, 0.25); }
+    .deploy-banner.cancelled .deploy-spinner,
+    .deploy-banner.cancelled .deploy-cancel { display: none; }
+
     /* ── Server banner ────────────────────── */
 
     .banner {
@@ -464,6 +1016,9 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
     .card:nth-child(3) { animation-delay: 0.1s; }
     .card:nth-child(4) { animation-delay: 0.15s; }
 
+    /* No entrance animation when a refresh swaps the cards */
+    .patched .card { animation: none; }
+
     @keyframes slideUp {
       from { opacity: 0; transform: translateY(8px); }
       to { opacity: 1; transform: translateY(0); }
@@ -905,6 +1460,8 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
       font-style: italic;
     }
 
+    .log-action-btn { gap: 2px; width: auto; min-width: 22px; padding: 0 4px; }
+${logViewerStyles()}
     .log-content::-webkit-scrollbar { width: 5px; }
     .log-content::-webkit-scrollbar-thumb {
       background: var(--vscode-scrollbarSlider-background);
@@ -936,6 +1493,204 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
       color: var(--vscode-foreground);
     }
 
+    .deploys-table {
+      width: 100%;
+      margin-top: 12px;
+      border-collapse: collapse;
+      font-size: 11.5px;
+    }
+
+    .deploys-table th {
+      text-align: left;
+      font-size: 9.5px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--vscode-descriptionForeground);
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--vscode-widget-border);
+      cursor: pointer;
+      user-select: none;
+    }
+
+    .deploys-table th.sorted.asc::after { content: " \\25B4"; }
+    .deploys-table th.sorted.desc::after { content: " \\25BE"; }
+
+    .deploys-table td {
+      padding: 6px 8px;
+      border-bottom: 1px solid var(--vscode-widget-border);
+      white-space: nowrap;
+    }
+
+    .deploys-table td.num { font-variant-numeric: tabular-nums; }
+
+    .history-row { cursor: pointer; transition: background 0.15s; }
+    .history-row:hover { background: var(--vscode-list-hoverBackground); }
+    .history-row.open { background: var(--vscode-list-inactiveSelectionBackground); }
+
+    .history-detail { display: none; }
+    .history-detail.open { display: table-row; }
+    .history-detail td { white-space: normal; background: var(--vscode-sideBar-background); }
+
+    .deploy-detail {
+      display: grid;
+      grid-template-columns: 80px 1fr;
+      gap: 5px 12px;
+      padding: 6px 2px;
+    }
+
+    .deploy-detail dt {
+      font-size: 9.5px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--vscode-descriptionForeground);
+      opacity: 0.7;
+      padding-top: 2px;
+    }
+
+    .deploy-error {
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 11px;
+      white-space: pre-wrap;
+      word-break: break-word;
+      color: #f87171;
+    }
+
+    .detail-hint {
+      font-size: 10.5px;
+      color: var(--vscode-descriptionForeground);
+      opacity: 0.6;
+      margin-left: 4px;
+    }
+
+    .rollback-btn {
+      margin: 4px 0 6px;
+      padding: 5px 12px;
+      border: 1px solid var(--vscode-widget-border);
+      border-radius: 6px;
+      background: transparent;
+      color: var(--vscode-foreground);
+      font-family: inherit;
+      font-size: 11px;
+      font-weight: 600;
+      cursor: pointer;
+      transition: all 0.15s;
+    }
+
+    .rollback-btn:hover {
+      background: var(--vscode-list-hoverBackground);
+      border-color: var(--vscode-focusBorder);
+    }
+
+    .section-header {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+    }
+
+    .section-actions { display: flex; align-items: center; gap: 6px; }
+
+    .domain-row {
+      padding: 10px 0;
+      border-bottom: 1px solid var(--vscode-widget-border);
+    }
+
+    .domain-row:last-child { border-bottom: none; }
+
+    .preview-branch {
+      font-size: 12px;
+      max-width: 40%;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .domain-main {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .domain-main .commit-link { font-size: 12.5px; font-weight: 600; }
+    .domain-main .section-actions { margin-left: auto; }
+    .domain-main .rollback-btn { margin: 0; }
+
+    .domain-badges { display: flex; gap: 4px; }
+
+    .domain-badge {
+      padding: 1px 7px;
+      border-radius: 8px;
+      font-size: 9.5px;
+      font-weight: 600;
+    }
+
+    .domain-badge.ok { background: rgba(74, 222, 128, 0.12); color: #4ade80; }
+    .domain-badge.pending { background: rgba(251, 191, 36, 0.12); color: #fbbf24; }
+    .domain-badge.fail { background: rgba(248, 113, 113, 0.12); color: #f87171; }
+
+    .domain-checking {
+      display: none;
+      width: 10px; height: 10px;
+      border: 1.5px solid var(--vscode-descriptionForeground);
+      border-top-color: transparent;
+      border-radius: 50%;
+      animation: spin 0.8s linear infinite;
+    }
+
+    .domain-row.checking .domain-checking { display: inline-block; }
+
+    .dns-table { margin-top: 6px; }
+    .dns-table th { cursor: default; }
+    .domain-row .detail-hint { display: block; margin: 8px 0 0; }
+
+    .env-empty {
+      margin: 10px 0 4px;
+      font-size: 11.5px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .env-table th { cursor: default; }
+
+    .env-value {
+      width: 100%;
+      max-width: 0;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 11px;
+    }
+
+    .env-row.secret:not(.revealed) .env-value {
+      letter-spacing: 1px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .env-row-actions { text-align: right; }
+
+    .env-icon-btn {
+      width: 22px;
+      height: 22px;
+      border: none;
+      border-radius: 4px;
+      background: transparent;
+      color: var(--vscode-descriptionForeground);
+      cursor: pointer;
+      opacity: 0.6;
+      transition: all 0.15s;
+    }
+
+    .env-icon-btn:hover {
+      opacity: 1;
+      background: var(--vscode-list-hoverBackground);
+      color: var(--vscode-foreground);
+    }
+
+    .env-section .detail-hint { display: block; margin: 8px 0 0; }
+
+    .commit-link { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    .commit-link:hover code { text-decoration: underline; }
+
     .deploys-table code {
       font-family: var(--vscode-editor-font-family), monospace;
       font-size: 10.5px;
@@ -1095,41 +1850,7 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
   </style>
 </head>
 <body>
-  <div class="topbar">
-    <div class="topbar-left">
-      <span class="brand">Build <span class="brand-accent">&amp;</span> Ship</span>
-      <div class="stats">
-        <span class="stat-pill"><span class="stat-mini-dot"></span>${liveCount} live</span>
-        <span class="stat-pill stat-total">${totalCount} projects</span>
-      </div>
-    </div>
-    <div class="topbar-right">
-      <button class="topbar-btn" onclick="post('refresh')">
-        <svg width="11" height="11" viewBox="0 0 16 16" fill="currentColor"><path d="M11.534 7h3.932a.25.25 0 0 1 .192.41l-1.966 2.36a.25.25 0 0 1-.384 0l-1.966-2.36a.25.25 0 0 1 .192-.41zm-11 2h3.932a.25.25 0 0 0 .192-.41L2.692 6.23a.25.25 0 0 0-.384 0L.342 8.59A.25.25 0 0 0 .534 9z"/><path d="M8 3c-1.552 0-2.94.707-3.857 1.818a.5.5 0 1 1-.771-.636A6.002 6.002 0 0 1 13.917 7H12.9A5.002 5.002 0 0 0 8 3zM3.1 9a5.002 5.002 0 0 0 8.757 2.182.5.5 0 1 1 .771.636A6.002 6.002 0 0 1 2.083 9H3.1z"/></svg>
-        Refresh
-      </button>
-      <button class="topbar-btn topbar-btn-primary" onclick="post('deploy')">Deploy</button>
-    </div>
-  </div>
-
-  <div class="content">
-    ${totalCount === 0 ? `
-      <div class="empty">
-        <div class="empty-emoji">\uD83D\uDE80</div>
-        <h2>It's quiet in here...</h2>
-        <p>Open a project folder and hit deploy.<br>We detect your framework, containerize it, and hand you a live URL.<br>Like magic, but with Docker.</p>
-        <button class="empty-btn" onclick="post('deploy')">\uD83D\uDE80 Ship It</button>
-      </div>
-    ` : `<div class="card-grid">${projectCards}</div>`}
-
-    <div class="footer">
-      <a href="#" onclick="post('openUrl', { url: 'https://buildandship.it' })">buildandship.it</a>
-      <span>\u00B7</span>
-      <a href="#" onclick="post('openUrl', { url: 'https://buildandship.it/support' })">Support</a>
-      <span>\u00B7</span>
-      <span>Your hardware. Your rules. Zero cloud bills.</span>
-    </div>
-  </div>
+  <div id="root">${body}</div>
 
   <script>
     const vscode = acquireVsCodeApi();
@@ -1142,50 +1863,189 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
       }
     }
 
+${logViewerScript({ idPrefix: "panel-logs-", lineCap: getLogLineCap(), cardSelector: ".card" })}
+
     function toggleCard(card) {
       card.classList.toggle('expanded');
+      if (card.classList.contains('expanded')) {
+        post('cardOpened', { project: card.dataset.project });
+      } else {
+        // Collapsing a card stops its log stream
+        closeLogs(card.dataset.project);
+        post('cardClosed', { project: card.dataset.project });
+      }
     }
 
     function toggleLogs(project) {
       const viewer = document.getElementById('panel-logs-' + project);
       if (!viewer) return;
       if (viewer.classList.contains('open')) {
-        viewer.classList.remove('open');
+        closeLogs(project);
       } else {
         post('viewLogs', { project: project });
       }
     }
 
+    function toggleDeployDetail(row) {
+      row.classList.toggle('open');
+      const detail = row.nextElementSibling;
+      if (detail) detail.classList.toggle('open');
+    }
+
+    function openCommit(link) {
+      post('openCommit', { sha: link.dataset.sha, directory: link.dataset.directory, repo: link.dataset.repo });
+    }
+
+    function rollbackTo(btn) {
+      post('rollback', { project: btn.dataset.project, deployId: btn.dataset.deploy });
+    }
+
+    function domainAction(btn, command) {
+      const row = btn.closest('.domain-row');
+      const section = btn.closest('.domains-section');
+      if (command === 'domainCheck' && row) row.classList.add('checking');
+      post(command, { project: section.dataset.project, domain: row ? row.dataset.domain : undefined });
+    }
+
+    function copyRecords(btn) {
+      post('copyRecords', { text: btn.dataset.records });
+    }
+
+    function updateDomainRow(project, status, serving) {
+      const section = Array.from(document.querySelectorAll('.domains-section'))
+        .find((el) => el.dataset.project === project);
+      const row = section && Array.from(section.querySelectorAll('.domain-row'))
+        .find((el) => el.dataset.domain === status.domain);
+      if (!row) return;
+      const badges = row.querySelector('.domain-badges');
+      badges.textContent = '';
+      const badge = (cls, text) => {
+        const el = document.createElement('span');
+        el.className = 'domain-badge ' + cls;
+        el.textContent = text;
+        badges.appendChild(el);
+      };
+      badge(status.verified ? 'ok' : 'pending', status.verified ? 'DNS verified' : 'DNS pending');
+      badge(status.tls === 'active' ? 'ok' : status.tls === 'error' ? 'fail' : 'pending', 'TLS ' + status.tls);
+      if (serving) badge('ok', 'Serving');
+      row.classList.toggle('checking', !serving);
+    }
+
+    function envAction(btn, command) {
+      const row = btn.closest('.env-row');
+      const section = btn.closest('.env-section');
+      post(command, { project: section.dataset.project, key: row ? row.dataset.key : undefined });
+    }
+
+    function envRow(project, key) {
+      return Array.from(document.querySelectorAll('.env-row'))
+        .find((row) => row.dataset.project === project && row.dataset.key === key);
+    }
+
+    function revealEnv(btn) {
+      const row = btn.closest('.env-row');
+      if (row.classList.contains('revealed')) {
+        row.classList.remove('revealed');
+        row.querySelector('.env-value').textContent = ${JSON.stringify(MASK)};
+        btn.title = 'Reveal value';
+        return;
+      }
+      post('envReveal', { project: row.dataset.project, key: row.dataset.key });
+    }
+
+    function sortHistory(th, key) {
+      const table = th.closest('table');
+      const asc = th.classList.contains('sorted') && th.classList.contains('desc');
+      table.querySelectorAll('th').forEach((h) => h.classList.remove('sorted', 'asc', 'desc'));
+      th.classList.add('sorted', asc ? 'asc' : 'desc');
+
+      const tbody = table.querySelector('tbody');
+      const rows = Array.from(tbody.querySelectorAll('tr.history-row'));
+      const numeric = key === 'duration' || key === 'created';
+      rows.sort((a, b) => {
+        const av = a.dataset[key] || '';
+        const bv = b.dataset[key] || '';
+        const cmp = numeric ? Number(av) - Number(bv) : av.localeCompare(bv);
+        return asc ? cmp : -cmp;
+      });
+      // Keep each detail row attached to its summary row
+      rows.forEach((row) => {
+        const detail = row.nextElementSibling;
+        tbody.appendChild(row);
+        if (detail && detail.classList.contains('history-detail')) tbody.appendChild(detail);
+      });
+    }
+
     function copyLogs(project) {
-      const viewer = document.getElementById('panel-logs-' + project);
-      if (!viewer) return;
-      const output = viewer.querySelector('.log-content');
-      if (!output) return;
-      const text = output.textContent || '';
-      post('copyLogs', { text: text });
+      post('copyLogs', { text: logText(project) });
+    }
+
+    const DEPLOY_PHASES = ${JSON.stringify(DEPLOY_PHASES)};
+
+    // The banner follows one deploy at a time — Cancel stops that one
+    function cancelBannerDeploy() {
+      const banner = document.getElementById('deploy-banner');
+      post('cancelDeploy', { project: banner ? banner.dataset.project : '' });
     }
 
-    // Listen for log data
+    function setDeployProgress(project, phase, label) {
+      const banner = document.getElementById('deploy-banner');
+      if (!banner) return;
+      banner.dataset.project = project;
+      banner.classList.remove('cancelled');
+      banner.classList.add('active');
+      document.getElementById('deploy-banner-title').textContent = project + ': ' + label + '\u2026';
+      const current = phase ? DEPLOY_PHASES.indexOf(phase) : -1;
+      banner.querySelectorAll('.deploy-step').forEach((step, i) => {
+        step.classList.toggle('done', i < current);
+        step.classList.toggle('current', i === current);
+      });
+    }
+
+    // Listen for log data and deploy progress
     window.addEventListener('message', (event) => {
       const msg = event.data;
-      if (msg.command === 'logsData' && msg.project) {
+      if (msg.command === 'render') {
+        patchContent(document.getElementById('root'), msg.html);
+      }
+      if (msg.command === 'extras') {
+        const slot = document.querySelector('.card-extras[data-project="' + CSS.escape(msg.project) + '"]');
+        if (slot) slot.innerHTML = msg.html;
+      }
+      if (msg.command === 'domainStatus') {
+        updateDomainRow(msg.project, msg.status, msg.serving);
+      }
+      if (msg.command === 'envValue') {
+        const row = envRow(msg.project, msg.key);
+        if (row) {
+          row.classList.add('revealed');
+          row.querySelector('.env-value').textContent = msg.value;
+          row.querySelector('.env-icon-btn').title = 'Hide value';
+        }
+      }
+      if (msg.command === 'deployProgress') {
+        setDeployProgress(msg.project, msg.phase, msg.label);
+      }
+      if (msg.command === 'deployCancelled') {
+        const banner = document.getElementById('deploy-banner');
+        if (banner) {
+          banner.classList.add('cancelled');
+          document.getElementById('deploy-banner-title').textContent = msg.project + ': deploy cancelled';
+          setTimeout(() => banner.classList.remove('active', 'cancelled'), 4000);
+        }
+      }
+
+      if (msg.command === 'deployDone') {
+        const banner = document.getElementById('deploy-banner');
+        if (banner) banner.classList.remove('active');
+      }
+      if (handleLogMessage(msg) && msg.command === 'logsStart') {
+        // Also expand the card if collapsed
         const viewer = document.getElementById('panel-logs-' + msg.project);
-        if (viewer) {
-          viewer.classList.add('open');
-          // Also expand the card if collapsed
-          const card = viewer.closest('.card');
-          if (card && !card.classList.contains('expanded')) {
-            card.classList.add('expanded');
-          }
-          const output = viewer.querySelector('.log-content');
-          if (output) {
-            const escaped = msg.logs
-              .replace(/&/g, '&amp;')
-              .replace(/</g, '&lt;')
-              .replace(/>/g, '&gt;');
-            output.innerHTML = escaped || '<span class="log-placeholder">No logs available</span>';
-            output.scrollTop = output.scrollHeight;
-          }
+        const card = viewer && viewer.closest('.card');
+        if (card && !card.classList.contains('expanded')) {
+          card.classList.add('expanded');
+          post('cardOpened', { project: msg.project });
         }
       }
     });
@@ -1194,35 +2054,17 @@ function getHtml(projects: ListProject[], details: StatusDetail[]): string {
 </html>`;
 }
 
-/** Format a date string as relative time (e.g., "2m ago", "3h ago") */
-function formatRelativeTime(dateStr: string): string {
-  try {
-    const now = Date.now();
-    const then = new Date(dateStr).getTime();
-    const diffMs = now - then;
-    const diffMin = Math.floor(diffMs / 60000);
-
-    if (diffMin < 1) { return "just now"; }
-    if (diffMin < 60) { return `${diffMin}m ago`; }
-
-    const diffHr = Math.floor(diffMin / 60);
-    if (diffHr < 24) { return `${diffHr}h ago`; }
-
-    const diffDay = Math.floor(diffHr / 24);
-    if (diffDay < 30) { return `${diffDay}d ago`; }
-
-    return new Date(dateStr).toLocaleDateString();
-  } catch {
-    return dateStr;
-  }
-}
-
-function getErrorHtml(error: string): string {
-  const safeError = error.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+/** Error page — says what broke and offers the matching recovery (see errors.ts) */
+function getErrorHtml(err: unknown): string {
+  const help = errorHelp(err);
+  const safeError = escapeHtml(err instanceof Error ? err.message : String(err));
+  const actions = help.actions
+    .map((a, i) => `<button class="${i === 0 ? "primary" : ""}" data-action="${escapeHtml(a.command)}">${escapeHtml(a.label)}</button>`)
+    .join("");
   return /* html */ `<!DOCTYPE html>
 <html>
 <head>
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; img-src https: data:;">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'unsafe-inline'; img-src https: data:;">
   <style>
     * { margin: 0; padding: 0; box-sizing: border-box; }
     body {
@@ -1250,16 +2092,41 @@ function getErrorHtml(error: string): string {
       color: #f87171;
       font-family: var(--vscode-editor-font-family), monospace;
       font-size: 11px;
+      word-break: break-word;
+    }
+    .actions { margin-top: 18px; display: flex; gap: 8px; justify-content: center; flex-wrap: wrap; }
+    button {
+      padding: 6px 14px;
+      border-radius: 5px;
+      border: 1px solid var(--vscode-button-secondaryBackground, rgba(255, 255, 255, 0.1));
+      background: var(--vscode-button-secondaryBackground, transparent);
+      color: var(--vscode-button-secondaryForeground, var(--vscode-foreground));
+      font-family: inherit;
+      font-size: 12px;
+      cursor: pointer;
+    }
+    button.primary {
+      border-color: var(--vscode-button-background);
+      background: var(--vscode-button-background);
+      color: var(--vscode-button-foreground);
     }
+    button:hover { opacity: 0.9; }
   </style>
 </head>
 <body>
   <div class="wrap">
     <div class="icon">\u26A0\uFE0F</div>
-    <h2>Dashboard hit a wall</h2>
-    <p>Make sure the <code>bs</code> CLI is installed and you're signed in. We can't show you cool stuff without it.</p>
+    <h2>${escapeHtml(help.title)}</h2>
+    <p>${escapeHtml(help.hint)}</p>
     <div class="err">${safeError}</div>
+    <div class="actions">${actions}</div>
   </div>
+  <script>
+    const vscode = acquireVsCodeApi();
+    document.querySelectorAll("button[data-action]").forEach((btn) => {
+      btn.addEventListener("click", () => vscode.postMessage({ command: "recover", action: btn.dataset.action }));
+    });
+  </script>
 </body>
 </html>`;
 }
@@ -0,0 +1,150 @@
+/**
+ * Path mapping — turns paths from inside a container (stack frames in
+ * `bs logs`) back into files in the workspace.
+ *
+ * Mappings come from the `buildandship.pathMappings` setting first, then
+ * fall back to the container workdir the CLI reports (default /app)
+ * mapped onto the project's local directory. `${workspaceFolder}` and
+ * relative paths mean the folder bound to the log's project (see
+ * binding.ts). Only files inside a workspace folder are ever opened.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import * as vscode from "vscode";
+import type { ListProject } from "./cli.js";
+import { getProjects, getStatusDetail } from "./store.js";
+import { resolveBindings } from "./binding.js";
+
+/** Container workdir assumed when the CLI doesn't report one */
+const DEFAULT_WORKDIR = "/app";
+
+interface PathMapping {
+  /** Absolute path prefix inside the container, e.g. "/app" */
+  container: string;
+  /** Local directory it corresponds to */
+  local: string;
+}
+
+/**
+ * Workspace folder the project deploys from — its binding (a preview
+ * follows its parent), else the only folder. Undefined when several
+ * folders are open and none is bound.
+ */
+export async function projectFolder(project: string): Promise<string | undefined> {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  try {
+    const projects = await getProjects();
+    const parent = projects.find((p) => p.name === project)?.preview_of;
+    const bindings = await resolveBindings(projects);
+    const binding = bindings.find((b) => b.project === project) ?? bindings.find((b) => b.project === parent);
+    if (binding) { return binding.folder.uri.fsPath; }
+  } catch {
+    // CLI unavailable — fall back to a single-folder workspace
+  }
+  return folders.length === 1 ? folders[0].uri.fsPath : undefined;
+}
+
+/** True if `file` lies inside one of the open workspace folders */
+function inWorkspace(file: string): boolean {
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(path.resolve(file))) !== undefined;
+}
+
+/** Expand ${workspaceFolder} / relative paths in a configured local path */
+export function expandLocal(local: string, root: string | undefined): string | undefined {
+  // Without a folder "${workspaceFolder}/src" would become "/src"
+  if (!root && local.includes("${workspaceFolder}")) { return undefined; }
+  const expanded = local.replace(/\$\{workspaceFolder\}/g, root ?? "");
+  if (path.isAbsolute(expanded)) { return expanded; }
+  return root ? path.join(root, expanded) : undefined;
+}
+
+function configuredMappings(root: string | undefined): PathMapping[] {
+  const config = vscode.workspace
+    .getConfiguration("buildandship")
+    .get<Record<string, string>>("pathMappings", {});
+
+  const mappings: PathMapping[] = [];
+  for (const [container, local] of Object.entries(config)) {
+    const resolved = expandLocal(local, root);
+    if (resolved) { mappings.push({ container, local: resolved }); }
+  }
+  return mappings;
+}
+
+async function projectMapping(project: string, root: string | undefined): Promise<PathMapping | undefined> {
+  let workdir = DEFAULT_WORKDIR;
+  let local = root;
+  try {
+    const detail = await getStatusDetail(project);
+    workdir = detail.workdir || DEFAULT_WORKDIR;
+    local = detail.directory || local;
+  } catch {
+    // CLI unavailable — the bound folder is the best guess
+  }
+  return local ? { container: workdir, local } : undefined;
+}
+
+/** Relative part of `containerPath` under `prefix`, or undefined if outside it */
+export function relativeTo(prefix: string, containerPath: string): string | undefined {
+  const base = prefix.replace(/\/+$/, "");
+  if (containerPath === base) { return ""; }
+  if (!containerPath.startsWith(base + "/")) { return undefined; }
+  return containerPath.slice(base.length + 1);
+}
+
+/**
+ * Resolve a container path to a local file inside the workspace. Tries
+ * each mapping (longest container prefix first), then searches the
+ * project's folder (or the whole workspace) for the path's tail.
+ */
+export async function resolveContainerPath(project: string, containerPath: string): Promise<vscode.Uri | undefined> {
+  const root = await projectFolder(project);
+  const mappings = configuredMappings(root);
+  const fallback = await projectMapping(project, root);
+  if (fallback) { mappings.push(fallback); }
+  mappings.sort((a, b) => b.container.length - a.container.length);
+
+  for (const mapping of mappings) {
+    const rel = relativeTo(mapping.container, containerPath);
+    if (rel === undefined) { continue; }
+    const candidate = path.join(mapping.local, ...rel.split("/"));
+    if (inWorkspace(candidate) && fs.existsSync(candidate)) { return vscode.Uri.file(candidate); }
+  }
+
+  // Same file on the host? (e.g. bind-mounted at an identical path)
+  if (inWorkspace(containerPath) && fs.existsSync(containerPath)) { return vscode.Uri.file(path.resolve(containerPath)); }
+
+  // Last resort: look for the trailing segments in the project's folder
+  const segments = containerPath.split("/").filter((s) => s && s !== "." && s !== "..");
+  for (let take = Math.min(3, segments.length); take >= 1; take--) {
+    const tail = segments.slice(-take).join("/");
+    const include = root ? new vscode.RelativePattern(root, `**/${tail}`) : `**/${tail}`;
+    const matches = await vscode.workspace.findFiles(include, "**/node_modules/**", 2);
+    if (matches.length === 1) { return matches[0]; }
+    if (matches.length > 1) { break; }
+  }
+
+  return undefined;
+}
+
+/** Open a file referenced from container logs at the given 1-based line/column */
+export async function openContainerSource(project: string, containerPath: string, line: number, column = 1): Promise<void> {
+  const uri = await resolveContainerPath(project, containerPath);
+  if (!uri) {
+    const action = await vscode.window.showWarningMessage(
+      `Build & Ship: Couldn't find ${containerPath} in your workspace.`,
+      "Edit Path Mappings"
+    );
+    if (action === "Edit Path Mappings") {
+      vscode.commands.executeCommand("workbench.action.openSettings", "buildandship.pathMappings");
+    }
+    return;
+  }
+
+  const position = new vscode.Position(Math.max(0, line - 1), Math.max(0, column - 1));
+  await vscode.window.showTextDocument(uri, {
+    selection: new vscode.Range(position, position),
+    preview: true,
+  });
+}
@@ -0,0 +1,207 @@
+/**
+ * Preview deploys — the current git branch shipped as its own instance
+ * next to production, with its own URL.
+ *
+ * Previews are named from the branch (`feat/login` → `feat-login`) and the
+ * CLI lists them with `preview_of` pointing at the parent project, which
+ * is how both webviews and the tree nest them. A preview can be promoted
+ * (its build replaces the parent's) or torn down; "Clean Up Previews"
+ * finds the ones whose branch was merged or deleted.
+ */
+
+import * as vscode from "vscode";
+import { destroyProject, promotePreview as cliPromote, type ListProject } from "./cli.js";
+import { getProjects, getStatusDetail } from "./store.js";
+import { currentBranch, defaultBranch, staleBranches } from "./git.js";
+import { pickFolder } from "./folders.js";
+import { boundProject } from "./binding.js";
+import { deploy } from "./deploy.js";
+import type { DeployOutcome } from "./events.js";
+
+/** Longest preview name the CLI accepts */
+const MAX_PREVIEW_NAME = 40;
+
+/** Preview name for a branch: lowercase, dashes for anything else */
+export function previewName(branch: string): string {
+  return branch
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .slice(0, MAX_PREVIEW_NAME)
+    .replace(/^-+|-+$/g, "") || "preview";
+}
+
+/** Previews grouped by parent project */
+export function groupPreviews(projects: ListProject[]): Map<string, ListProject[]> {
+  const byParent = new Map<string, ListProject[]>();
+  for (const p of projects) {
+    if (!p.preview_of) { continue; }
+    byParent.set(p.preview_of, [...(byParent.get(p.preview_of) ?? []), p]);
+  }
+  return byParent;
+}
+
+/** True if the project is a preview whose parent is in the list (and so nests under it) */
+export function isNestedPreview(project: ListProject, projects: ListProject[]): boolean {
+  return !!project.preview_of && projects.some((p) => p.name === project.preview_of);
+}
+
+/** Deploy the checked-out branch of a folder as a preview (resolves with how it ended, if it ran) */
+export async function deployPreview(folderUri?: vscode.Uri): Promise<DeployOutcome | undefined> {
+  const folder = await pickFolder("Preview which folder?", folderUri);
+  if (!folder) { return; }
+
+  const branch = await currentBranch(folder.uri.fsPath);
+  if (!branch) {
+    vscode.window.showErrorMessage(`Build & Ship: ${folder.name} isn't on a git branch. Check one out to preview it.`);
+    return;
+  }
+
+  if (branch === await defaultBranch(folder.uri.fsPath)) {
+    const action = await vscode.window.showInformationMessage(
+      `Build & Ship: You're on ${branch} — that's what production runs. Preview it anyway?`,
+      "Deploy Preview",
+      "Deploy to Production"
+    );
+    if (action === "Deploy to Production") { return deploy(folder.uri); }
+    if (action !== "Deploy Preview") { return; }
+  }
+
+  return deploy(folder.uri, { preview: previewName(branch) });
+}
+
+async function pickPreview(placeHolder: string): Promise<ListProject | undefined> {
+  const previews = (await getProjects().catch(() => [] as ListProject[])).filter((p) => p.preview_of);
+  if (previews.length === 0) {
+    vscode.window.showInformationMessage("Build & Ship: No previews running. Ship a branch with Deploy Preview.");
+    return undefined;
+  }
+  const pick = await vscode.window.showQuickPick(
+    previews.map((p) => ({
+      label: p.name,
+      description: [p.branch, p.status].filter(Boolean).join(" · "),
+      detail: `Preview of ${p.preview_of}${p.public_url ? ` — ${p.public_url}` : ""}`,
+      project: p,
+    })),
+    { placeHolder }
+  );
+  return pick?.project;
+}
+
+/** Confirm and promote a preview to production. Resolves true if promoted. */
+export async function promotePreview(name?: string): Promise<boolean> {
+  const preview = name
+    ? (await getProjects().catch(() => [] as ListProject[])).find((p) => p.name === name)
+    : await pickPreview("Promote which preview?");
+  if (!preview) { return false; }
+  if (!preview.preview_of) {
+    vscode.window.showErrorMessage(`Build & Ship: ${preview.name} isn't a preview.`);
+    return false;
+  }
+
+  const parent = preview.preview_of;
+  const confirm = await vscode.window.showWarningMessage(
+    `Promote ${preview.name} to production?`,
+    {
+      modal: true,
+      detail: `${parent} starts serving ${preview.branch ? `${preview.branch}'s` : "this preview's"} build. You can roll back from the deploy history.`,
+    },
+    "Promote"
+  );
+  if (confirm !== "Promote") { return false; }
+
+  try {
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Window, title: `Promoting ${preview.name} → ${parent}` },
+      () => cliPromote(preview.name)
+    );
+  } catch (err: any) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't promote ${preview.name}. ${err.message}`);
+    return false;
+  }
+
+  vscode.window.setStatusBarMessage(`$(check) ${parent} now runs ${preview.branch ?? preview.name}`, 6000);
+  return true;
+}
+
+/** Repository to check a parent's previews against: its directory, else the bound workspace folder */
+async function repositoryFor(parent: string): Promise<string | undefined> {
+  const detail = await getStatusDetail(parent).catch(() => undefined);
+  if (detail?.directory) { return detail.directory; }
+
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    if (await boundProject({ name: folder.name, uri: folder.uri }) === parent) { return folder.uri.fsPath; }
+  }
+  return undefined;
+}
+
+/**
+ * Tear down previews whose branch was merged into the default branch or
+ * deleted. Lists them (all ticked) and confirms before destroying.
+ * Resolves true if anything was torn down.
+ */
+export async function cleanUpPreviews(parent?: string): Promise<boolean> {
+  const projects = await getProjects().catch(() => [] as ListProject[]);
+  const groups = groupPreviews(projects);
+
+  type Candidate = { preview: ListProject; reason: "merged" | "deleted" };
+  const candidates: Candidate[] = [];
+
+  for (const [parentName, previews] of groups) {
+    if (parent && parentName !== parent) { continue; }
+    const repo = await repositoryFor(parentName);
+    if (!repo) { continue; }
+
+    const branches = previews.map((p) => p.branch).filter((b): b is string => !!b);
+    const [stale, checkedOut] = await Promise.all([
+      staleBranches(repo, branches).catch(() => new Map<string, "merged" | "deleted">()),
+      currentBranch(repo),
+    ]);
+    for (const preview of previews) {
+      // A fresh branch with no commits yet looks merged — never offer the one being worked on
+      const reason = preview.branch && preview.branch !== checkedOut ? stale.get(preview.branch) : undefined;
+      if (reason) { candidates.push({ preview, reason }); }
+    }
+  }
+
+  if (candidates.length === 0) {
+    vscode.window.setStatusBarMessage("$(check) No stale previews — every branch is still in play", 5000);
+    return false;
+  }
+
+  const chosen = await vscode.window.showQuickPick(
+    candidates.map((c) => ({
+      label: c.preview.name,
+      description: `${c.preview.branch} · ${c.reason === "merged" ? "merged" : "branch deleted"}`,
+      detail: `Preview of ${c.preview.preview_of}`,
+      picked: true,
+      candidate: c,
+    })),
+    { canPickMany: true, placeHolder: "Tear down these previews? Untick any you still need." }
+  );
+  if (!chosen || chosen.length === 0) { return false; }
+
+  const confirm = await vscode.window.showWarningMessage(
+    `Tear down ${chosen.length} preview${chosen.length === 1 ? "" : "s"}?`,
+    { modal: true, detail: chosen.map((c) => c.label).join("\n") },
+    "Tear Down"
+  );
+  if (confirm !== "Tear Down") { return false; }
+
+  const results = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: "Tearing down previews" },
+    () => Promise.allSettled(chosen.map((c) => destroyProject(c.label)))
+  );
+
+  const failed = results
+    .map((r, i) => (r.status === "rejected" ? `${chosen[i].label}: ${r.reason?.message ?? r.reason}` : undefined))
+    .filter((f): f is string => !!f);
+  const removed = chosen.length - failed.length;
+
+  if (failed.length > 0) {
+    vscode.window.showErrorMessage(`Build & Ship: Couldn't tear down ${failed.length} preview${failed.length === 1 ? "" : "s"}. ${failed.join("; ")}`);
+  }
+  if (removed > 0) {
+    vscode.window.setStatusBarMessage(`$(trash) ${removed} stale preview${removed === 1 ? "" : "s"} torn down`, 5000);
+  }
+  return removed > 0;
+}
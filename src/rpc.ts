@@ -0,0 +1,445 @@
+/**
+ * CLI daemon — one long-lived `bs serve --stdio` instead of a process per
+ * query. Opt-in with `buildandship.daemon`.
+ *
+ * Newline-delimited JSON-RPC 2.0 over stdin/stdout:
+ *
+ *   → {"jsonrpc":"2.0","id":1,"method":"initialize","params":{"client":"vscode"}}
+ *   ← {"jsonrpc":"2.0","id":1,"result":{"version":"0.9.0","methods":["list","status","logs","deploy","subscribe"]}}
+ *   → {"jsonrpc":"2.0","id":2,"method":"status","params":{"project":"my-app"}}
+ *   ← {"jsonrpc":"2.0","id":2,"result":{"name":"my-app","status":"live",…}}
+ *   ← {"jsonrpc":"2.0","method":"status/changed","params":{"project":"my-app","status":"stopped"}}
+ *
+ * Results are what `bs <command> --json` prints (logs: the plain text).
+ * `deploy` streams its --json lines as `deploy/event` notifications and
+ * answers with the final result line; `$/cancelRequest` stops it.
+ *
+ * cli.ts asks here first and falls back to execFile whenever the daemon
+ * is off, the CLI is too old to have `serve` (it exits, or doesn't answer
+ * initialize), a method isn't offered, or the connection drops.
+ */
+
+import { spawn, type ChildProcess } from "child_process";
+import { createInterface } from "readline";
+import * as vscode from "vscode";
+import type { DeployEvent, DeployProcess, DeployResult } from "./cli.js";
+import { CliTimeoutError, fromDaemonError } from "./errors.js";
+
+/** An old CLI prints usage and exits — a new one usually answers well within this */
+const INIT_TIMEOUT_MS = 5000;
+/** How long a cancelled deploy may take to stop before the daemon is restarted */
+const CANCEL_GRACE_MS = 5000;
+/** Crashes tolerated per window before we stay on execFile */
+const MAX_RESTARTS = 3;
+const RESTART_WINDOW_MS = 5 * 60 * 1000;
+
+const METHOD_NOT_FOUND = -32601;
+
+export interface StatusPush {
+  project: string;
+  /** New status — undefined once the project is gone */
+  status?: string;
+}
+
+interface RpcMessage {
+  id?: number;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string; data?: { stderr?: string; exit_code?: number } };
+}
+
+interface Connection {
+  proc: ChildProcess;
+  version: string;
+  methods: Set<string>;
+  /** Status changes are pushed — no need to poll */
+  pushing: boolean;
+}
+
+interface Pending {
+  /** The daemon it was sent to */
+  proc: ChildProcess;
+  method: string;
+  /** Gets the raw result — request() vouches for its type */
+  resolve: (value: unknown) => void;
+  reject: (err: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/** The daemon can't answer (gone, or lacks the method) — use execFile instead */
+class DaemonUnavailableError extends Error {}
+
+/** The daemon said it doesn't offer the method */
+class MethodNotFoundError extends DaemonUnavailableError {}
+
+let connection: Connection | undefined;
+let connecting: Promise<Connection | undefined> | undefined;
+/** cliPath whose CLI has no `serve` — not asked again until settings change */
+let unsupportedFor: string | undefined;
+/** Held by pauseDaemon — no daemon runs while above zero */
+let paused = 0;
+/** When the daemon died unexpectedly (ms), within the restart window */
+let crashes: number[] = [];
+/** Daemons we stopped on purpose — their exit isn't a crash */
+const stopping = new WeakSet<ChildProcess>();
+/** Connects, fallbacks and crashes (created by initDaemon) */
+let log: vscode.LogOutputChannel | undefined;
+
+let nextId = 1;
+const pending = new Map<number, Pending>();
+const deployListeners = new Map<number, (event: DeployEvent) => void>();
+
+const _onStatusPush = new vscode.EventEmitter<StatusPush>();
+/** Fires for every status change the daemon pushes */
+export const onStatusPush = _onStatusPush.event;
+
+function getConfig(): vscode.WorkspaceConfiguration {
+  return vscode.workspace.getConfiguration("buildandship");
+}
+
+// ── Connection ──────────────────────────────────────────────────────
+
+/** The connected daemon — starting it if allowed; undefined means use execFile */
+function daemon(): Promise<Connection | undefined> {
+  if (connection) { return Promise.resolve(connection); }
+  if (connecting) { return connecting; }
+  if (paused > 0) { return Promise.resolve(undefined); }
+  if (!getConfig().get<boolean>("daemon", false)) { return Promise.resolve(undefined); }
+
+  const cli = getConfig().get<string>("cliPath", "bs");
+  if (unsupportedFor === cli) { return Promise.resolve(undefined); }
+  crashes = crashes.filter((t) => Date.now() - t < RESTART_WINDOW_MS);
+  if (crashes.length >= MAX_RESTARTS) { return Promise.resolve(undefined); }
+
+  connecting = connect(cli).finally(() => { connecting = undefined; });
+  return connecting;
+}
+
+async function connect(cli: string): Promise<Connection | undefined> {
+  const proc = spawn(cli, ["serve", "--stdio"], {
+    env: { ...process.env, NO_COLOR: "1" },
+  });
+  const stderrTail: string[] = [];
+  let ready = false;
+  /** Printed something that isn't JSON-RPC before initializing (usage text) */
+  let chatter = false;
+
+  createInterface({ input: proc.stdout }).on("line", (line) => {
+    if (!onLine(line) && !ready) { chatter = true; }
+  });
+  createInterface({ input: proc.stderr }).on("line", (line) => {
+    stderrTail.push(line);
+    if (stderrTail.length > 5) { stderrTail.shift(); }
+  });
+  // Spawn failures also end in close, and writes to a dead daemon are
+  // answered by failPending — nothing else to do with either error
+  proc.on("error", () => undefined);
+  proc.stdin.on("error", () => undefined);
+  proc.on("close", (code) => {
+    if (connection?.proc === proc) { connection = undefined; }
+    failPending(proc);
+    if (ready && !stopping.has(proc)) {
+      crashes.push(Date.now());
+      log?.warn(`bs serve exited (code ${code}) — falling back to one process per call. ${stderrTail.join(" ")}`);
+    }
+  });
+
+  try {
+    const info = await request<{ version?: string; methods?: string[] }>(
+      proc, "initialize", { client: "vscode" }, INIT_TIMEOUT_MS
+    ).result;
+    const conn: Connection = {
+      proc,
+      version: info.version ?? "unknown",
+      methods: new Set(info.methods ?? []),
+      pushing: false,
+    };
+    ready = true;
+    connection = conn;
+    log?.info(`Connected to bs serve ${conn.version} (${[...conn.methods].join(", ")})`);
+
+    if (conn.methods.has("subscribe")) {
+      request(proc, "subscribe", { topic: "status" }, INIT_TIMEOUT_MS).result
+        .then(() => { conn.pushing = true; })
+        .catch(() => undefined);
+    }
+    return conn;
+  } catch (err) {
+    stopping.add(proc);
+    proc.kill();
+    // A slow start or an early exit may not happen again — count it against
+    // the restart budget. Only a CLI that says it can't serve is written off.
+    const transient = !chatter && (
+      err instanceof CliTimeoutError || (err instanceof DaemonUnavailableError && !(err instanceof MethodNotFoundError))
+    );
+    if (transient) {
+      crashes.push(Date.now());
+      log?.warn(`bs serve didn't start (${(err as Error).message}) — using one process per call for now.`);
+    } else {
+      unsupportedFor = cli;
+      log?.info("bs serve isn't available — using one process per call.");
+    }
+    return undefined;
+  }
+}
+
+/** Send a request; `id` is there so long calls (deploy) can be cancelled */
+function request<T>(proc: ChildProcess, method: string, params: object, timeoutMs: number): { id: number; result: Promise<T> } {
+  const id = nextId++;
+  const result = new Promise<T>((resolve, reject) => {
+    // The daemon answers with what `bs <method> --json` prints, i.e. a T
+    const entry: Pending = { proc, method, resolve: (value) => resolve(value as T), reject };
+    if (timeoutMs > 0) {
+      entry.timer = setTimeout(() => {
+        pending.delete(id);
+        reject(new CliTimeoutError(
+          `bs ${method}: timed out after ${Math.round(timeoutMs / 1000)}s`,
+          { command: `bs serve --stdio (${method})`, exitCode: null, stderr: "" },
+          timeoutMs
+        ));
+      }, timeoutMs);
+    }
+    pending.set(id, entry);
+    if (!proc.stdin?.writable) {
+      settle(id, () => reject(new DaemonUnavailableError("bs serve isn't running")));
+      return;
+    }
+    proc.stdin.write(JSON.stringify({ jsonrpc: "2.0", id, method, params }) + "\n");
+  });
+  return { id, result };
+}
+
+function notify(proc: ChildProcess, method: string, params: object): void {
+  if (proc.stdin?.writable) {
+    proc.stdin.write(JSON.stringify({ jsonrpc: "2.0", method, params }) + "\n");
+  }
+}
+
+/** Take a request off the books and run what finishes it */
+function settle(id: number, finish: (entry: Pending) => void): void {
+  const entry = pending.get(id);
+  if (!entry) { return; }
+  pending.delete(id);
+  if (entry.timer) { clearTimeout(entry.timer); }
+  finish(entry);
+}
+
+/** Everything still waiting on a daemon that's gone goes back to execFile */
+function failPending(proc: ChildProcess): void {
+  for (const [id, entry] of pending) {
+    if (entry.proc === proc) {
+      settle(id, (e) => e.reject(new DaemonUnavailableError("bs serve exited")));
+    }
+  }
+}
+
+/** Handle one line from the daemon — false if it wasn't protocol */
+function onLine(line: string): boolean {
+  let message: RpcMessage;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    return false; // Chatter that isn't protocol
+  }
+
+  if (message.id !== undefined && message.method === undefined) {
+    settle(message.id, (entry) => {
+      if (!message.error) {
+        entry.resolve(message.result);
+      } else if (message.error.code === METHOD_NOT_FOUND) {
+        entry.reject(new MethodNotFoundError(message.error.message));
+      } else {
+        const { data } = message.error;
+        entry.reject(fromDaemonError(
+          `bs serve --stdio (${entry.method})`,
+          `bs ${entry.method}: ${data?.stderr?.trim() || message.error.message}`,
+          data?.exit_code ?? null,
+          data?.stderr ?? ""
+        ));
+      }
+    });
+    return true;
+  }
+
+  switch (message.method) {
+    case "deploy/event": {
+      const params = message.params as { request?: number; event?: DeployEvent } | undefined;
+      if (params?.request !== undefined && params.event) {
+        deployListeners.get(params.request)?.(params.event);
+      }
+      break;
+    }
+    case "status/changed": {
+      const params = message.params as Partial<StatusPush> | undefined;
+      if (typeof params?.project === "string") {
+        _onStatusPush.fire({ project: params.project, status: params.status });
+      }
+      break;
+    }
+  }
+  return true;
+}
+
+// ── Calls ───────────────────────────────────────────────────────────
+
+/**
+ * Run `method` on the daemon, or `fallback` (the execFile path) when the
+ * daemon can't take it. CLI failures reject like their execFile twins.
+ */
+export async function viaDaemon<T>(method: string, params: object, fallback: () => Promise<T>, timeoutMs = 15000): Promise<T> {
+  const conn = await daemon();
+  if (!conn?.methods.has(method)) { return fallback(); }
+  try {
+    return await request<T>(conn.proc, method, params, timeoutMs).result;
+  } catch (err) {
+    if (err instanceof DaemonUnavailableError) { return fallback(); }
+    throw err;
+  }
+}
+
+/** True while the daemon pushes status changes (polling can rest) */
+export function daemonPushesStatus(): boolean {
+  return connection?.pushing ?? false;
+}
+
+/**
+ * Deploy through the daemon when it's already connected and offers
+ * `deploy` — same events and result as runDeploy's child process.
+ * Undefined means spawn `bs deploy` as usual.
+ */
+export function deployViaDaemon(cwd: string, onEvent: (event: DeployEvent) => void, preview?: string): DeployProcess | undefined {
+  const conn = connection;
+  if (!conn?.methods.has("deploy")) { return undefined; }
+
+  let project: string | undefined;
+  let url: string | undefined;
+  let deployId: string | undefined;
+  let error: string | undefined;
+  let cancelled = false;
+
+  const track = (event: DeployEvent) => {
+    if (event.project) { project = event.project; }
+    if (event.url) { url = event.url; }
+    if (event.deploy_id) { deployId = event.deploy_id; }
+    if (event.type === "error" && event.message) { error = event.message; }
+  };
+
+  // Deploys take as long as they take — no timeout, cancel() stops them
+  const { id, result } = request<DeployEvent>(conn.proc, "deploy", { cwd, ...(preview ? { preview } : {}) }, 0);
+  deployListeners.set(id, (event) => {
+    track(event);
+    onEvent(event);
+  });
+
+  // Settles `done` when the daemon doesn't honour a cancel in time
+  let giveUp: (result: DeployResult) => void = () => undefined;
+  const abandoned = new Promise<DeployResult>((resolve) => { giveUp = resolve; });
+  let graceTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const answered: Promise<DeployResult> = result.then(
+    (final) => {
+      track(final);
+      const success = !cancelled && final.status !== "failed";
+      return {
+        success,
+        cancelled,
+        exitCode: success ? 0 : 1,
+        project,
+        url,
+        deployId,
+        error: success || cancelled ? undefined : error || final.message || "bs deploy failed",
+      };
+    },
+    // After cancel() the daemon answers with a RequestCancelled error
+    (err: Error & { exitCode?: number | null }) => ({
+      success: false,
+      cancelled,
+      exitCode: err.exitCode ?? null,
+      project,
+      url,
+      deployId,
+      error: cancelled ? undefined : error || err.message,
+    })
+  );
+  const done = Promise.race([answered, abandoned]).finally(() => {
+    clearTimeout(graceTimer);
+    deployListeners.delete(id);
+  });
+
+  const cancel = () => {
+    if (cancelled) { return; }
+    cancelled = true;
+    notify(conn.proc, "$/cancelRequest", { id });
+    // Like SIGKILL after SIGTERM on the spawn path: a daemon that ignores
+    // the cancel (or hangs) is restarted, and the deploy counts as cancelled
+    graceTimer = setTimeout(() => {
+      log?.warn(`bs serve didn't stop a deploy within ${CANCEL_GRACE_MS / 1000}s of cancelling — restarting it.`);
+      settle(id, () => undefined);
+      deployListeners.delete(id);
+      giveUp({ success: false, cancelled: true, exitCode: null, project, url, deployId });
+      restartHung(conn.proc);
+    }, CANCEL_GRACE_MS);
+  };
+
+  return { done, cancel };
+}
+
+// ── Lifecycle ───────────────────────────────────────────────────────
+
+/** Kill a daemon that stopped responding and start a fresh one */
+function restartHung(proc: ChildProcess): void {
+  if (connection?.proc === proc) { connection = undefined; }
+  stopping.add(proc);
+  proc.kill("SIGKILL");
+  void daemon();
+}
+
+/** Stop the daemon; the next call starts a fresh one (if still enabled) */
+function shutdown(): void {
+  const proc = connection?.proc;
+  connection = undefined;
+  if (proc) {
+    stopping.add(proc);
+    proc.kill();
+  }
+}
+
+/**
+ * Stop the daemon and keep it stopped (calls go through execFile) until
+ * resumeDaemon — e.g. while its binary is being replaced.
+ */
+export async function pauseDaemon(): Promise<void> {
+  paused++;
+  await connecting;
+  shutdown();
+}
+
+/** Undo pauseDaemon and start the daemon again (if enabled) */
+export function resumeDaemon(): void {
+  paused = Math.max(0, paused - 1);
+  if (paused > 0) { return; }
+  // It may be a different CLI now — worth another try
+  unsupportedFor = undefined;
+  void daemon();
+}
+
+/** Start the daemon when enabled, and follow setting changes (call once from activate) */
+export function initDaemon(context: vscode.ExtensionContext): void {
+  log = vscode.window.createOutputChannel("Build & Ship: Daemon", { log: true });
+  void daemon();
+  context.subscriptions.push(
+    log,
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("buildandship.daemon") || e.affectsConfiguration("buildandship.cliPath")) {
+        // A different CLI (or a change of heart) deserves another try
+        unsupportedFor = undefined;
+        crashes = [];
+        shutdown();
+        void daemon();
+      }
+    }),
+    { dispose: shutdown },
+    _onStatusPush
+  );
+}
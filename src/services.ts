@@ -0,0 +1,132 @@
+/**
+ * Monorepo services — several deployable folders in one workspace,
+ * declared in the workspace folder's `.buildandship.json`:
+ *
+ *   { "services": [
+ *       { "name": "web", "path": "apps/web" },
+ *       { "name": "api", "path": "apps/api" },
+ *       { "path": "workers/queue" }
+ *   ] }
+ *
+ * Each service deploys with `bs deploy` run in its own folder (so it can
+ * carry its own binding file). A single one deploys from the explorer
+ * context menu on its folder; "Deploy Services…" ships a group in parallel.
+ * Paths must stay inside the workspace folder — entries pointing elsewhere
+ * are skipped.
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { BINDING_FILE, readWorkspaceConfig, type WorkspaceConfig } from "./binding.js";
+import { deployGroup, type ServiceDeploy } from "./deploy.js";
+import { pickFolder, workspaceTargets, type FolderTarget } from "./folders.js";
+
+/** A declared service, resolved to its folder */
+export interface Service extends FolderTarget {
+  /** Workspace folder whose config declares it */
+  workspace: FolderTarget;
+}
+
+const LAST_SERVICES_KEY = "buildandship.lastServices";
+
+let workspaceState: vscode.Memento | undefined;
+
+/** Remember the last group picked and publish `buildandship.hasServices` (call from activate) */
+export function initServices(context: vscode.ExtensionContext): void {
+  workspaceState = context.workspaceState;
+  void updateServicesContext();
+}
+
+/** Re-publish `buildandship.hasServices` (after a config file changes) */
+export async function updateServicesContext(): Promise<void> {
+  const services = await listServices();
+  vscode.commands.executeCommand("setContext", "buildandship.hasServices", services.length > 0);
+}
+
+/** True if `folder` is `root` or lies inside it */
+function isInside(root: string, folder: string): boolean {
+  const rel = path.relative(root, folder);
+  return rel !== ".." && !rel.startsWith(`..${path.sep}`) && !path.isAbsolute(rel);
+}
+
+/** Declared services, plus the paths skipped for pointing outside their workspace folder */
+async function readServices(): Promise<{ services: Service[]; outside: string[] }> {
+  const services: Service[] = [];
+  const outside: string[] = [];
+  const multiRoot = workspaceTargets().length > 1;
+
+  for (const workspace of workspaceTargets()) {
+    const config = await readWorkspaceConfig(workspace.uri);
+    const declared = Array.isArray(config?.services) ? config.services : [];
+
+    for (const entry of declared) {
+      if (typeof entry?.path !== "string" || !entry.path.trim()) { continue; }
+      const folder = path.resolve(workspace.uri.fsPath, entry.path.trim());
+      if (!isInside(workspace.uri.fsPath, folder)) {
+        outside.push(multiRoot ? `${workspace.name}: ${entry.path}` : entry.path);
+        continue;
+      }
+      const uri = vscode.Uri.file(folder);
+      const name = typeof entry.name === "string" && entry.name ? entry.name : path.basename(folder);
+      services.push({ name: multiRoot ? `${workspace.name}/${name}` : name, uri, workspace });
+    }
+  }
+
+  return { services, outside };
+}
+
+/** Every service declared across the workspace folders (inside them) */
+export async function listServices(): Promise<Service[]> {
+  return (await readServices()).services;
+}
+
+/** Open a folder's config file for editing, seeding an example `services` list if it has none */
+async function editServicesConfig(): Promise<void> {
+  const workspace = await pickFolder("Add services to which folder?");
+  if (!workspace) { return; }
+
+  const file = vscode.Uri.joinPath(workspace.uri, BINDING_FILE);
+  const config: WorkspaceConfig = { ...(await readWorkspaceConfig(workspace.uri)) };
+  if (!config.services?.length) {
+    config.services = [{ name: "web", path: "apps/web" }];
+    const content = JSON.stringify(config, null, 2) + "\n";
+    await vscode.workspace.fs.writeFile(file, Buffer.from(content, "utf8"));
+  }
+  await vscode.window.showTextDocument(file);
+}
+
+/**
+ * Pick services (last group pre-selected) and deploy them in parallel.
+ * Resolves with each service's outcome, or undefined if nothing ran.
+ */
+export async function deployServices(): Promise<ServiceDeploy[] | undefined> {
+  const { services, outside } = await readServices();
+  if (outside.length > 0) {
+    vscode.window.showWarningMessage(
+      `Build & Ship: Skipped services outside the workspace folder: ${outside.join(", ")}. Service paths must stay inside the folder holding ${BINDING_FILE}.`
+    );
+  }
+  if (services.length === 0) {
+    const action = await vscode.window.showInformationMessage(
+      `Build & Ship: No services here yet. List your apps under "services" in ${BINDING_FILE} to ship them together.`,
+      "Add Services"
+    );
+    if (action === "Add Services") { await editServicesConfig(); }
+    return undefined;
+  }
+
+  const last = workspaceState?.get<string[]>(LAST_SERVICES_KEY);
+  const picks = await vscode.window.showQuickPick(
+    services.map((s) => ({
+      label: s.name,
+      description: vscode.workspace.asRelativePath(s.uri),
+      picked: last ? last.includes(s.uri.toString()) : true,
+      service: s,
+    })),
+    { canPickMany: true, placeHolder: "Ship which services? They deploy side by side." }
+  );
+  if (!picks || picks.length === 0) { return undefined; }
+
+  await workspaceState?.update(LAST_SERVICES_KEY, picks.map((p) => p.service.uri.toString()));
+  return deployGroup(picks.map((p) => p.service));
+}
@@ -1,17 +1,22 @@
 /**
  * Sidebar TreeView — shows all deployed projects with status,
- * URLs, and quick actions. The main UI surface of the extension.
+ * URLs, and quick actions. Registered as the "Projects" view next to the
+ * webview: a native, keyboard- and screen-reader-friendly project list.
  *
  * Tree structure:
  *   📦 my-app  ● live
  *     ├─ 🌐 https://my-app.buildandship.it
  *     ├─ 🖥️ http://localhost:4000
  *     ├─ ⚙️ express · 0.5% CPU · 32MB
- *     └─ 📋 Last deploy: 2m ago (● live)
+ *     ├─ 📋 Last deploy: 2m ago (● live)
+ *     └─ 📦 my-app-feat-login  ⎇ feat/login · ● live   (preview)
  */
 
 import * as vscode from "vscode";
-import { listProjects, statusAll, statusDetail, type ListProject, type StatusProject, type StatusDetail } from "./cli.js";
+import type { ListProject, StatusProject, StatusDetail } from "./cli.js";
+import { getProjects, getStatusAll, onProjectsChange } from "./store.js";
+import { boundProjectNames } from "./binding.js";
+import { groupPreviews, isNestedPreview } from "./previews.js";
 
 // ── Tree Item Types ─────────────────────────────────────────────────
 
@@ -20,13 +25,18 @@ type TreeItem = ProjectItem | InfoItem;
 class ProjectItem extends vscode.TreeItem {
   constructor(
     public readonly project: ListProject,
-    public readonly statusInfo?: StatusProject
+    public readonly statusInfo?: StatusProject,
+    public readonly isCurrent = false,
+    public readonly previews: ListProject[] = []
   ) {
-    super(project.name, vscode.TreeItemCollapsibleState.Expanded);
+    // Previews sit collapsed under their parent
+    super(project.name, project.preview_of ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded);
 
-    // Status icon + description
+    // Status icon + description (projects bound to this workspace are flagged)
     const statusIcon = getStatusIcon(project.status);
-    this.description = `${statusIcon} ${project.status}`;
+    this.description = project.preview_of
+      ? `${project.branch ? `⎇ ${project.branch} · ` : ""}${statusIcon} ${project.status}`
+      : `${statusIcon} ${project.status}${isCurrent ? " · this workspace" : ""}`;
 
     // Icon
     this.iconPath = new vscode.ThemeIcon(
@@ -42,10 +52,20 @@ class ProjectItem extends vscode.TreeItem {
     const contexts = ["project"];
     if (project.status === "live") { contexts.push("live"); }
     if (project.public_url) { contexts.push("hasUrl"); }
+    if (isCurrent) { contexts.push("current"); }
+    if (project.preview_of) { contexts.push("preview"); }
+    if (previews.length > 0) { contexts.push("hasPreviews"); }
     this.contextValue = contexts.join(",");
 
+    // Screen readers get words instead of the status glyph
+    const kind = project.preview_of ? `, preview of ${project.preview_of}${project.branch ? ` from ${project.branch}` : ""}` : "";
+    this.accessibilityInformation = {
+      label: `${project.name}${kind}, ${project.status}${isCurrent ? ", this workspace" : ""}${project.public_url ? `, ${project.public_url}` : ""}`,
+    };
+
     // Tooltip
     const lines = [`${project.name} — ${project.status}`];
+    if (project.preview_of) { lines.push(`Preview of ${project.preview_of}${project.branch ? ` (${project.branch})` : ""}`); }
     if (project.public_url) { lines.push(`URL: ${project.public_url}`); }
     if (project.tunnel_active) { lines.push("Tunnel: connected"); }
     if (project.auto_deploy) {
@@ -84,12 +104,16 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   readonly onDidChangeTreeData = this._onDidChange.event;
 
   private projects: ListProject[] = [];
+  private previews: Map<string, ListProject[]> = new Map();
   private statusMap: Map<string, StatusProject> = new Map();
+  private currentProjects: Set<string> = new Set();
   private detailCache: Map<string, StatusDetail> = new Map();
-  private refreshTimer?: ReturnType<typeof setInterval>;
+  private subscription: vscode.Disposable;
+  private loaded = false;
 
   constructor() {
-    this.startAutoRefresh();
+    // The store polls and invalidates — the tree just re-reads
+    this.subscription = onProjectsChange(() => this.reload());
   }
 
   refresh(): void {
@@ -101,11 +125,14 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     try {
       // Fetch list and status in parallel
       const [list, status] = await Promise.all([
-        listProjects(),
-        statusAll(),
+        getProjects(),
+        getStatusAll(),
       ]);
 
       this.projects = list;
+      this.previews = groupPreviews(list);
+      this.currentProjects = await boundProjectNames(list);
+      this.loaded = true;
       this.statusMap.clear();
       this.detailCache.clear();
 
@@ -127,12 +154,17 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeItem> {
   async getChildren(element?: TreeItem): Promise<TreeItem[]> {
     // Root level — return project items
     if (!element) {
-      if (this.projects.length === 0) {
+      // Only fetch once up front — an empty project list is a valid answer
+      if (!this.loaded) {
         await this.reload();
       }
-      return this.projects.map((p) => {
+      // This workspace's projects first; previews nest under their parent
+      const sorted = this.projects
+        .filter((p) => !isNestedPreview(p, this.projects))
+        .sort((a, b) => Number(this.currentProjects.has(b.name)) - Number(this.currentProjects.has(a.name)));
+      return sorted.map((p) => {
         const status = this.statusMap.get(p.name);
-        return new ProjectItem(p, status);
+        return new ProjectItem(p, status, this.currentProjects.has(p.name), this.previews.get(p.name));
       });
     }
 
@@ -144,8 +176,8 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeItem> {
     return [];
   }
 
-  private async getProjectChildren(item: ProjectItem): Promise<InfoItem[]> {
-    const children: InfoItem[] = [];
+  private async getProjectChildren(item: ProjectItem): Promise<TreeItem[]> {
+    const children: TreeItem[] = [];
     const p = item.project;
     const s = item.statusInfo;
 
@@ -197,24 +229,16 @@ export class ProjectTreeProvider implements vscode.TreeDataProvider<TreeItem> {
       ));
     }
 
-    return children;
-  }
-
-  private startAutoRefresh(): void {
-    const interval = vscode.workspace.getConfiguration("buildandship")
-      .get<number>("refreshInterval", 30);
-
-    if (interval > 0) {
-      this.refreshTimer = setInterval(() => {
-        this.reload();
-      }, interval * 1000);
+    // Previews last, one collapsible item each
+    for (const preview of item.previews) {
+      children.push(new ProjectItem(preview, this.statusMap.get(preview.name)));
     }
+
+    return children;
   }
 
   dispose(): void {
-    if (this.refreshTimer) {
-      clearInterval(this.refreshTimer);
-    }
+    this.subscription.dispose();
     this._onDidChange.dispose();
   }
 }
@@ -4,14 +4,17 @@
  * Examples:
  *   $(rocket) my-app ● live
  *   $(rocket) my-app ○ stopped
+ *   $(rocket) 2/3 live            (multi-root: one entry per folder's project)
  *   $(rocket) Build & Ship: 2 projects live
  */
 
 import * as vscode from "vscode";
-import { listProjects, type ListProject } from "./cli.js";
+import type { ListProject } from "./cli.js";
+import { getProjects, onProjectsChange } from "./store.js";
+import { resolveBindings } from "./binding.js";
 
 let statusBarItem: vscode.StatusBarItem | undefined;
-let refreshTimer: ReturnType<typeof setInterval> | undefined;
+let subscription: vscode.Disposable | undefined;
 
 export function createStatusBar(): vscode.StatusBarItem {
   statusBarItem = vscode.window.createStatusBarItem(
@@ -23,7 +26,7 @@ export function createStatusBar(): vscode.StatusBarItem {
   statusBarItem.name = "Build & Ship";
 
   updateStatusBar();
-  startAutoRefresh();
+  subscription = onProjectsChange(() => updateStatusBar());
 
   return statusBarItem;
 }
@@ -40,7 +43,7 @@ export async function updateStatusBar(): Promise<void> {
   }
 
   try {
-    const projects = await listProjects();
+    const projects = await getProjects();
 
     if (projects.length === 0) {
       statusBarItem.text = "$(rocket) Build & Ship";
@@ -50,11 +53,25 @@ export async function updateStatusBar(): Promise<void> {
       return;
     }
 
-    // Find the project matching current workspace
-    const workspaceName = vscode.workspace.workspaceFolders?.[0]?.name;
-    const currentProject = projects.find((p) => p.name === workspaceName);
-
-    if (currentProject) {
+    // Projects bound to the open workspace folders, in folder order
+    const folderProjects = (await resolveBindings(projects))
+      .map((binding) => ({ folder: binding.folder, project: projects.find((p) => p.name === binding.project)! }));
+    const currentProject = folderProjects.length === 1 ? folderProjects[0].project : undefined;
+
+    if (folderProjects.length > 1) {
+      // Multi-root: combined summary of this workspace's projects
+      const liveCount = folderProjects.filter(({ project }) => project.status === "live").length;
+      const anyFailed = folderProjects.some(({ project }) => project.status === "failed");
+      statusBarItem.text = `$(rocket) ${liveCount}/${folderProjects.length} live`;
+      statusBarItem.tooltip = folderProjects
+        .map(({ project }) => `${project.status === "live" ? "●" : "○"} ${project.name} — ${project.status}`)
+        .concat(["", "Click to open the dashboard"])
+        .join("\n");
+      statusBarItem.backgroundColor = anyFailed
+        ? new vscode.ThemeColor("statusBarItem.errorBackground")
+        : undefined;
+      statusBarItem.command = "buildandship.showPanel";
+    } else if (currentProject) {
       // Show current project status
       const icon = currentProject.status === "live" ? "●" : "○";
       statusBarItem.text = `$(rocket) ${currentProject.name} ${icon}`;
@@ -78,6 +95,7 @@ export async function updateStatusBar(): Promise<void> {
       // Show summary for all projects
       const liveCount = projects.filter((p) => p.status === "live").length;
       statusBarItem.text = `$(rocket) B&S: ${liveCount}/${projects.length} live`;
+      statusBarItem.backgroundColor = undefined;
       statusBarItem.tooltip = projects
         .map((p) => `${p.status === "live" ? "●" : "○"} ${p.name}`)
         .join("\n");
@@ -100,20 +118,7 @@ function formatTooltip(p: ListProject): string {
   return lines.join("\n");
 }
 
-function startAutoRefresh(): void {
-  const interval = vscode.workspace.getConfiguration("buildandship")
-    .get<number>("refreshInterval", 30);
-
-  if (interval > 0) {
-    refreshTimer = setInterval(() => {
-      updateStatusBar();
-    }, interval * 1000);
-  }
-}
-
 export function disposeStatusBar(): void {
-  if (refreshTimer) {
-    clearInterval(refreshTimer);
-  }
+  subscription?.dispose();
   statusBarItem?.dispose();
 }
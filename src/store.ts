@@ -0,0 +1,223 @@
+/**
+ * Project store — one shared cache of project state in front of cli.ts.
+ *
+ * The status bar, the project tree, the sidebar webview and the dashboard
+ * all read `bs list`, `bs status`, `bs status <name>`, `bs env list <name>`
+ * and `bs domains list <name>` through here:
+ *   - identical calls in flight at the same time share one process
+ *   - answers are reused for TTL_MS, so views refreshing together cost one call
+ *   - actions (deploy, stop, restart, destroy, …) call invalidate()
+ *   - a single poll (`buildandship.refreshInterval`) replaces each view's own,
+ *     and rests while the CLI daemon pushes status changes (see rpc.ts)
+ *
+ * Views subscribe to onProjectsChange instead of polling the CLI. Every
+ * project list loaded here also feeds the public onProjectStateChanged
+ * event (events.ts) — re-read after each invalidation, so it fires whether
+ * or not any view is open.
+ */
+
+import * as vscode from "vscode";
+import {
+  listDomains, listEnv, listProjects, statusAll, statusDetail,
+  type DomainStatus, type EnvVar, type ListProject, type StatusAll, type StatusDetail,
+} from "./cli.js";
+import { daemonPushesStatus, onStatusPush } from "./rpc.js";
+import { reportProjectStates } from "./events.js";
+
+/** How long an answer counts as fresh */
+const TTL_MS = 5000;
+/** Changes within this window reach listeners as one event */
+const CHANGE_DEBOUNCE_MS = 50;
+
+const LIST = "list";
+const STATUS = "status";
+const detailKey = (project: string) => `detail:${project}`;
+const envKey = (project: string) => `env:${project}`;
+const domainsKey = (project: string) => `domains:${project}`;
+/** Keys holding one project's data */
+const projectKeys = (project: string) => [detailKey(project), envKey(project), domainsKey(project)];
+const PROJECT_KEY = /^(?:detail|env|domains):/;
+
+export interface ProjectsChange {
+  /** "updated": the CLI reported new state; "invalidated": an action made cached state stale */
+  reason: "updated" | "invalidated";
+  /** The one project that changed — undefined for several or all */
+  project?: string;
+}
+
+export interface ReadOptions {
+  /** Skip the cache — still joins an identical call already in flight */
+  fresh?: boolean;
+}
+
+interface Entry<T> {
+  value?: T;
+  /** When value arrived (ms) */
+  at: number;
+  /** The call in flight, shared by everyone asking meanwhile */
+  pending?: Promise<T>;
+}
+
+const entries = new Map<string, Entry<unknown>>();
+
+const _onProjectsChange = new vscode.EventEmitter<ProjectsChange>();
+/** Fires when project state changed or was invalidated — re-read and re-render */
+export const onProjectsChange = _onProjectsChange.event;
+
+let pendingChange: ProjectsChange | undefined;
+let changeTimer: ReturnType<typeof setTimeout> | undefined;
+let pollTimer: ReturnType<typeof setInterval> | undefined;
+
+// ── Reads ───────────────────────────────────────────────────────────
+
+/** Every project (bs list) */
+export function getProjects(options?: ReadOptions): Promise<ListProject[]> {
+  return read(LIST, async () => {
+    const projects = await listProjects();
+    reportProjectStates(projects);
+    return projects;
+  }, options);
+}
+
+/** Runtime status of every project (bs status) */
+export function getStatusAll(options?: ReadOptions): Promise<StatusAll> {
+  return read(STATUS, () => statusAll(), options);
+}
+
+/** One project's status, resources and deploy history (bs status <name>) */
+export function getStatusDetail(project: string, options?: ReadOptions): Promise<StatusDetail> {
+  return read(detailKey(project), () => statusDetail(project), options, project);
+}
+
+/** A project's environment variables (bs env list <name>) */
+export function getEnv(project: string, options?: ReadOptions): Promise<EnvVar[]> {
+  return read(envKey(project), () => listEnv(project), options, project);
+}
+
+/** A project's custom domains (bs domains list <name>) */
+export function getDomains(project: string, options?: ReadOptions): Promise<DomainStatus[]> {
+  return read(domainsKey(project), () => listDomains(project), options, project);
+}
+
+function read<T>(key: string, load: () => Promise<T>, options?: ReadOptions, project?: string): Promise<T> {
+  let entry = entries.get(key) as Entry<T> | undefined;
+  if (entry?.pending) {
+    return entry.pending;
+  }
+  if (entry?.value !== undefined && !options?.fresh && Date.now() - entry.at < TTL_MS) {
+    return Promise.resolve(entry.value);
+  }
+
+  if (!entry) {
+    entry = { at: 0 };
+    entries.set(key, entry);
+  }
+  const current = entry;
+  current.pending = load()
+    .then((value) => {
+      // Dropped by invalidate() while in flight — hand the answer out, don't keep it
+      if (entries.get(key) !== current) { return value; }
+      const previous = current.value;
+      current.value = value;
+      current.at = Date.now();
+      if (previous !== undefined && JSON.stringify(previous) !== JSON.stringify(value)) {
+        changed({ reason: "updated", project });
+      }
+      return value;
+    })
+    .finally(() => {
+      current.pending = undefined;
+    });
+  return current.pending;
+}
+
+// ── Invalidation ────────────────────────────────────────────────────
+
+/**
+ * Forget cached state after an action changed it — the project list and
+ * status always, plus one project's detail, env and domains (or every
+ * project's when none is given) — and tell the views to re-read.
+ */
+export function invalidate(project?: string): void {
+  entries.delete(LIST);
+  entries.delete(STATUS);
+  const keys = project ? projectKeys(project) : [];
+  for (const key of [...entries.keys()]) {
+    if (project ? keys.includes(key) : PROJECT_KEY.test(key)) {
+      entries.delete(key);
+    }
+  }
+  changed({ reason: "invalidated", project });
+}
+
+/** Queue a change event, merging bursts into one */
+function changed(change: ProjectsChange): void {
+  if (pendingChange) {
+    pendingChange = {
+      reason: pendingChange.reason === "invalidated" || change.reason === "invalidated" ? "invalidated" : "updated",
+      project: pendingChange.project === change.project ? change.project : undefined,
+    };
+  } else {
+    pendingChange = change;
+  }
+
+  if (!changeTimer) {
+    changeTimer = setTimeout(() => {
+      const change = pendingChange!;
+      pendingChange = undefined;
+      changeTimer = undefined;
+      _onProjectsChange.fire(change);
+    }, CHANGE_DEBOUNCE_MS);
+  }
+}
+
+// ── Polling ─────────────────────────────────────────────────────────
+
+/** Re-read list and status — read() reports any difference through onProjectsChange */
+async function poll(): Promise<void> {
+  if (daemonPushesStatus()) { return; }
+  try {
+    await Promise.all([getProjects({ fresh: true }), getStatusAll({ fresh: true })]);
+  } catch {
+    // CLI missing or signed out — the views say so on their next render
+  }
+}
+
+function startPolling(): void {
+  stopPolling();
+  const interval = vscode.workspace.getConfiguration("buildandship")
+    .get<number>("refreshInterval", 30);
+
+  if (interval > 0) {
+    pollTimer = setInterval(() => void poll(), interval * 1000);
+  }
+}
+
+function stopPolling(): void {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = undefined;
+  }
+}
+
+/** Start the shared poll (call once from activate) */
+export function initStore(context: vscode.ExtensionContext): void {
+  startPolling();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("buildandship.refreshInterval")) { startPolling(); }
+    }),
+    onStatusPush((push) => invalidate(push.project)),
+    // Re-read the list so project state events don't depend on a view asking
+    onProjectsChange((change) => {
+      if (change.reason === "invalidated") { void getProjects().catch(() => undefined); }
+    }),
+    {
+      dispose: () => {
+        stopPolling();
+        if (changeTimer) { clearTimeout(changeTimer); }
+      },
+    },
+    _onProjectsChange
+  );
+}
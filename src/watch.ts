@@ -0,0 +1,250 @@
+/**
+ * Watch mode — redeploy the bound project while you iterate.
+ *
+ * Two triggers, picked when watching starts:
+ *   - files: any change under the folder matching `buildandship.watch.include`
+ *     that .gitignore doesn't exclude, debounced
+ *   - commit: a new local commit on the watched branch
+ *
+ * Deploys go through the normal pipeline in deploy.ts (unattended, so
+ * checks never prompt). Triggers that land while a deploy is running are
+ * coalesced into one queued redeploy. A status bar item shows the watch
+ * state; click it to stop.
+ */
+
+import * as path from "path";
+import * as vscode from "vscode";
+import { deploy, isDeploying, whenIdle } from "./deploy.js";
+import { pickFolder, type FolderTarget } from "./folders.js";
+import { boundProject } from "./binding.js";
+import { currentBranch, ignoredPaths, repoRoot, resolveRef } from "./git.js";
+
+export type WatchTrigger = "files" | "commit";
+
+interface WatchSession {
+  folder: FolderTarget;
+  project: string;
+  trigger: WatchTrigger;
+  /** Branch whose commits trigger a deploy (commit trigger only) */
+  branch?: string;
+  /** Repository top level (commit trigger only) */
+  root?: string;
+  lastCommit?: string;
+  /** Changed paths waiting for the debounce to settle */
+  changed: Set<string>;
+  timer?: ReturnType<typeof setTimeout>;
+  /** A deploy started by this session is running */
+  deploying: boolean;
+  /** Another trigger arrived meanwhile — redeploy once it ends */
+  queued: boolean;
+  deploys: number;
+  disposables: vscode.Disposable[];
+}
+
+/** Paths never worth a deploy, whatever .gitignore says */
+const ALWAYS_IGNORED = /(^|[\\/])(\.git|node_modules)([\\/]|$)/;
+
+/** Most paths passed to one `git check-ignore` call */
+const IGNORE_BATCH = 200;
+
+let session: WatchSession | undefined;
+let statusItem: vscode.StatusBarItem | undefined;
+
+function getConfig() {
+  return vscode.workspace.getConfiguration("buildandship.watch");
+}
+
+/** True while watch mode is on */
+export function isWatching(): boolean {
+  return !!session;
+}
+
+/** Start watching a folder (the clicked, only, or picked one) */
+export async function startWatch(folderUri?: vscode.Uri): Promise<void> {
+  const folder = await pickFolder("Watch which folder?", folderUri);
+  if (!folder) { return; }
+
+  const project = (await boundProject(folder)) ?? folder.name;
+  const branchNow = await currentBranch(folder.uri.fsPath);
+  const watchBranch = getConfig().get<string>("branch", "") || branchNow;
+
+  type Item = vscode.QuickPickItem & { trigger: WatchTrigger };
+  const items: Item[] = [
+    { label: "$(save) On Change", description: "Redeploy when files change", trigger: "files" },
+  ];
+  if (watchBranch) {
+    items.push({ label: "$(git-commit) On Commit", description: `Redeploy after each commit to ${watchBranch}`, trigger: "commit" });
+  }
+  const preferred = getConfig().get<WatchTrigger>("trigger", "files");
+  items.sort((a, b) => Number(b.trigger === preferred) - Number(a.trigger === preferred));
+
+  const pick = await vscode.window.showQuickPick(items, { placeHolder: `Watch ${folder.name} and redeploy ${project}…` });
+  if (!pick) { return; }
+
+  const next: WatchSession = {
+    folder,
+    project,
+    trigger: pick.trigger,
+    changed: new Set(),
+    deploying: false,
+    queued: false,
+    deploys: 0,
+    disposables: [],
+  };
+
+  if (pick.trigger === "commit") {
+    next.root = await repoRoot(folder.uri.fsPath);
+    if (!next.root || !watchBranch) {
+      vscode.window.showErrorMessage(`Build & Ship: ${folder.name} isn't in a git repository — watch on change instead.`);
+      return;
+    }
+    next.branch = watchBranch;
+    next.lastCommit = await resolveRef(next.root, `refs/heads/${watchBranch}`);
+  }
+
+  // Only now is the new session sure to start — a bad pick leaves the old one running
+  stopWatch();
+  if (next.trigger === "commit") {
+    watchCommits(next);
+  } else {
+    watchFiles(next);
+  }
+
+  session = next;
+  vscode.commands.executeCommand("setContext", "buildandship.watching", true);
+  updateStatus();
+}
+
+/** Stop watching (a running deploy is left to finish) */
+export function stopWatch(): void {
+  if (!session) { return; }
+  if (session.timer) { clearTimeout(session.timer); }
+  session.disposables.forEach((d) => d.dispose());
+  session = undefined;
+  statusItem?.dispose();
+  statusItem = undefined;
+  vscode.commands.executeCommand("setContext", "buildandship.watching", false);
+}
+
+// ── Triggers ────────────────────────────────────────────────────────
+
+function watchFiles(s: WatchSession): void {
+  const include = getConfig().get<string>("include", "**/*");
+  const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(s.folder.uri, include));
+  const onChange = (uri: vscode.Uri) => {
+    if (!isWatchable(s.folder.uri.fsPath, uri.fsPath)) { return; }
+    s.changed.add(uri.fsPath);
+    debounce(s, () => flushFiles(s));
+  };
+  s.disposables.push(
+    watcher,
+    watcher.onDidCreate(onChange),
+    watcher.onDidChange(onChange),
+    watcher.onDidDelete(onChange)
+  );
+}
+
+/** True if a change to `file` may be worth a deploy of `folder` (before .gitignore has its say) */
+export function isWatchable(folder: string, file: string): boolean {
+  const rel = path.relative(folder, file);
+  return !!rel && !rel.startsWith("..") && !path.isAbsolute(rel) && !ALWAYS_IGNORED.test(rel);
+}
+
+async function flushFiles(s: WatchSession): Promise<void> {
+  const paths = [...s.changed];
+  s.changed.clear();
+
+  // Anything past the batch is deploy-worthy enough on its own
+  const sample = paths.slice(0, IGNORE_BATCH);
+  const ignored = await ignoredPaths(s.folder.uri.fsPath, sample);
+  const relevant = paths.length > IGNORE_BATCH || sample.some((p) => !ignored.has(p));
+  if (relevant) { requestDeploy(s); }
+}
+
+function watchCommits(s: WatchSession): void {
+  // Commits move the branch ref (loose file or packed-refs after gc)
+  const refs = vscode.workspace.createFileSystemWatcher(
+    new vscode.RelativePattern(vscode.Uri.file(path.join(s.root!, ".git")), "{HEAD,packed-refs,refs/heads/**}")
+  );
+  const onChange = () => debounce(s, () => flushCommits(s));
+  s.disposables.push(refs, refs.onDidCreate(onChange), refs.onDidChange(onChange));
+}
+
+async function flushCommits(s: WatchSession): Promise<void> {
+  const commit = await resolveRef(s.root!, `refs/heads/${s.branch}`);
+  if (!commit || commit === s.lastCommit) { return; }
+  s.lastCommit = commit;
+
+  // The deploy ships the working tree — only meaningful with the branch checked out
+  if (await currentBranch(s.folder.uri.fsPath) !== s.branch) { return; }
+  requestDeploy(s);
+}
+
+function debounce(s: WatchSession, fn: () => Promise<void>): void {
+  if (s.timer) { clearTimeout(s.timer); }
+  const delay = Math.max(200, getConfig().get<number>("debounce", 1500));
+  s.timer = setTimeout(() => {
+    s.timer = undefined;
+    if (session === s) { void fn(); }
+  }, delay);
+}
+
+// ── Deploying ───────────────────────────────────────────────────────
+
+/** Deploy now, or queue one redeploy if anything is already deploying */
+function requestDeploy(s: WatchSession): void {
+  if (s.deploying || isDeploying(s.project)) {
+    if (!s.queued) {
+      s.queued = true;
+      updateStatus();
+      // Someone else's deploy — pick the queue up once it's done
+      if (!s.deploying) { void whenIdle(s.project).then(() => drainQueue(s)); }
+    }
+    return;
+  }
+  void runDeploy(s);
+}
+
+function drainQueue(s: WatchSession): void {
+  if (session !== s || !s.queued || s.deploying) { return; }
+  s.queued = false;
+  requestDeploy(s);
+}
+
+async function runDeploy(s: WatchSession): Promise<void> {
+  s.deploying = true;
+  s.deploys++;
+  updateStatus();
+  try {
+    await deploy(s.folder.uri, { unattended: true });
+  } finally {
+    s.deploying = false;
+    if (session === s) {
+      updateStatus();
+      drainQueue(s);
+    }
+  }
+}
+
+// ── Status bar ──────────────────────────────────────────────────────
+
+function updateStatus(): void {
+  if (!session) { return; }
+  if (!statusItem) {
+    // Just right of the deploy item, which shows the deploy itself
+    statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+    statusItem.command = "buildandship.stopWatch";
+  }
+
+  const s = session;
+  const what = s.trigger === "commit" ? `commits to ${s.branch}` : "file changes";
+  statusItem.text = s.queued
+    ? `$(eye) ${s.project}: redeploy queued`
+    : `$(eye) Watching ${s.project}`;
+  statusItem.tooltip = new vscode.MarkdownString(
+    `Redeploying **${s.project}** on ${what} in \`${s.folder.name}\`.\n\n` +
+    `${s.deploys} deploy${s.deploys === 1 ? "" : "s"} so far${s.queued ? " · one more queued" : ""}\n\nClick to stop watching`
+  );
+  statusItem.backgroundColor = new vscode.ThemeColor("statusBarItem.warningBackground");
+  statusItem.show();
+}
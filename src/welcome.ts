@@ -6,7 +6,7 @@
  * Key UX decisions:
  *   - Project cards are COLLAPSED by default (name + status + URL only)
  *   - Click to EXPAND and see details (metrics, logs, deploy history, actions)
- *   - Inline log viewer — logs show inside the extension, not in a terminal
+ *   - Inline log viewer — logs stream live inside the extension, not in a terminal
  *   - System Status-style metric tiles with clear labels
  *   - Subtle glassmorphism cards with refined typography
  *
@@ -16,7 +16,18 @@
  */
 
 import * as vscode from "vscode";
-import { isCliInstalled, isLoggedIn, listProjects, statusAll, statusDetail, getLogs, type ListProject, type StatusProject, type StatusDetail } from "./cli.js";
+import { authStatus, isCliInstalled, isLoggedIn, DEPLOY_PHASES, type StatusProject, type StatusDetail, type DeployPhase, type Deploy } from "./cli.js";
+import { formatDuration, formatRelativeTime, shortSha } from "./format.js";
+import { openCommit } from "./git.js";
+import { openContainerSource } from "./pathmap.js";
+import { boundProjectNames, rememberDirectories } from "./binding.js";
+import { isNestedPreview } from "./previews.js";
+import { LogStreamManager, getLogLineCap } from "./logstream.js";
+import { logToolsHtml, logViewerScript, logViewerStyles } from "./logviewer.js";
+import { BsCliError, RECOVERY_COMMANDS, errorHelp } from "./errors.js";
+import { getProjects, getStatusAll, getStatusDetail, onProjectsChange } from "./store.js";
+import { hasCapability } from "./capabilities.js";
+import { rollbackTargets } from "./deploy.js";
 
 /** Merged view of list + status + detail data for rich project cards */
 interface ProjectView {
@@ -31,20 +42,50 @@ interface ProjectView {
   uptime?: string;
   local_url?: string;
   net?: string;
-  deploys?: { id: string; status: string; commit_sha?: string; duration_ms?: number; created_at: string }[];
+  directory?: string;
+  deploys?: Deploy[];
+  /** Bound to one of this workspace's folders */
+  current?: boolean;
+  /** Parent project, for previews */
+  preview_of?: string;
+  branch?: string;
+  /** Previews nested under this project */
+  previews?: ProjectView[];
+}
+
+/** In-flight deploy shown in the progress banner */
+interface DeployProgress {
+  project: string;
+  phase?: DeployPhase;
+  label: string;
 }
 
 export class WelcomeViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = "buildandship.welcome";
   private webviewView?: vscode.WebviewView;
+  /** The document is loaded, so refreshes can patch it in place */
+  private loaded = false;
+  private deployProgress?: DeployProgress;
+  private logStreams = new LogStreamManager((message) => this.webviewView?.webview.postMessage(message));
 
   constructor(private readonly extensionUri: vscode.Uri) {}
 
   /** Call this to refresh the welcome view after state changes */
   async refresh(): Promise<void> {
-    if (this.webviewView) {
-      this.webviewView.webview.html = await this.getHtml();
-    }
+    const view = this.webviewView;
+    if (!view) { return; }
+    const body = await this.getBody();
+    if (view !== this.webviewView) { return; }
+
+    if (this.loaded) {
+      // Patch in place — open log viewers (and their followers) survive
+      await view.webview.postMessage({ command: "render", html: body });
+      return;
+    }
+    // A fresh document drops every open viewer, so stop their followers first
+    this.logStreams.stopAll();
+    view.webview.html = this.wrap(body);
+    this.loaded = true;
   }
 
   /** Trigger confetti celebration after a successful deploy */
@@ -58,6 +99,24 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /** Update the deploy progress banner — pass undefined once the deploy ends */
+  setDeployProgress(progress: DeployProgress | undefined): void {
+    this.deployProgress = progress;
+    if (this.webviewView) {
+      this.webviewView.webview.postMessage(
+        progress ? { command: "deployProgress", ...progress } : { command: "deployDone" }
+      );
+    }
+  }
+
+  /** Show the banner in its cancelled state, then let it fade out */
+  markDeployCancelled(projectName: string): void {
+    this.deployProgress = undefined;
+    if (this.webviewView) {
+      this.webviewView.webview.postMessage({ command: "deployCancelled", project: projectName });
+    }
+  }
+
   resolveWebviewView(
     webviewView: vscode.WebviewView,
     _context: vscode.WebviewViewResolveContext,
@@ -87,6 +146,16 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           vscode.commands.executeCommand("buildandship.deploy");
           break;
         }
+        case "cancelDeploy":
+          vscode.commands.executeCommand("buildandship.cancelDeploy", message.project || undefined);
+          break;
+        case "recover":
+          // Only the commands an error page offers — never arbitrary ones
+          // (each one invalidates the store when it's done, which re-renders)
+          if (RECOVERY_COMMANDS.has(message.action)) {
+            await vscode.commands.executeCommand(message.action);
+          }
+          break;
         case "install":
           vscode.commands.executeCommand("buildandship.installCli");
           break;
@@ -94,20 +163,15 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           vscode.env.openExternal(vscode.Uri.parse(message.url));
           break;
         case "refresh":
-          this.refresh();
+          vscode.commands.executeCommand("buildandship.refresh");
           break;
-        case "viewLogs": {
-          // Fetch logs and send them back to the webview for inline display
-          const logs = await getLogs(message.project, 80);
-          if (this.webviewView) {
-            this.webviewView.webview.postMessage({
-              command: "logsData",
-              project: message.project,
-              logs,
-            });
-          }
+        case "viewLogs":
+          // Follow logs and stream new lines into the inline viewer
+          this.logStreams.start(message.project, 80);
+          break;
+        case "stopLogs":
+          this.logStreams.stop(message.project);
           break;
-        }
         case "copyLogs": {
           // Copy log text to clipboard
           if (message.text) {
@@ -116,28 +180,64 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           }
           break;
         }
+        case "openSource":
+          await openContainerSource(message.project, message.path, message.line, message.column);
+          break;
+        case "openCommit":
+          await openCommit(message.sha, message.directory || undefined, message.repo || undefined);
+          break;
+        case "rollback":
+          await vscode.commands.executeCommand("buildandship.rollback", message.project, message.deployId);
+          break;
+        case "deployPreview":
+          vscode.commands.executeCommand("buildandship.deployPreview");
+          break;
+        case "promotePreview":
+          await vscode.commands.executeCommand("buildandship.promotePreview", message.project);
+          break;
+        case "cleanUpPreviews":
+          await vscode.commands.executeCommand("buildandship.cleanUpPreviews", message.project);
+          break;
         case "showPanel":
           vscode.commands.executeCommand("buildandship.showPanel");
           break;
         case "stop":
           vscode.commands.executeCommand("buildandship.stop", message.project);
-          setTimeout(() => this.refresh(), 3000);
           break;
         case "restart":
           vscode.commands.executeCommand("buildandship.restart", message.project);
-          setTimeout(() => this.refresh(), 5000);
           break;
         case "destroy":
           vscode.commands.executeCommand("buildandship.destroy", message.project);
-          setTimeout(() => this.refresh(), 3000);
           break;
       }
     });
 
-    // Set initial content
-    this.getHtml().then((html) => {
-      webviewView.webview.html = html;
+    // Re-render after actions — not on every poll, which would collapse open cards
+    const storeSubscription = onProjectsChange((change) => {
+      if (change.reason === "invalidated") { this.refresh(); }
+    });
+
+    // Nobody is watching a hidden or disposed view — stop following logs.
+    // A hidden view drops its document, so the next refresh writes it anew.
+    webviewView.onDidChangeVisibility(() => {
+      this.loaded = false;
+      if (webviewView.visible) {
+        this.refresh();
+      } else {
+        this.logStreams.stopAll();
+      }
     });
+    webviewView.onDidDispose(() => {
+      storeSubscription.dispose();
+      this.logStreams.stopAll();
+      this.webviewView = undefined;
+      this.loaded = false;
+    });
+
+    // Set initial content
+    this.loaded = false;
+    this.refresh();
   }
 
   private getIconUri(): string {
@@ -146,7 +246,8 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
     return this.webviewView.webview.asWebviewUri(iconPath).toString();
   }
 
-  private async getHtml(): Promise<string> {
+  /** The current screen's markup, without the document around it */
+  private async getBody(): Promise<string> {
     const iconUri = this.getIconUri();
 
     // Detect state
@@ -155,16 +256,21 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       return this.renderInstallScreen(iconUri);
     }
 
-    const loggedIn = await isLoggedIn();
-    if (!loggedIn) {
-      return this.renderLoginScreen(iconUri);
+    let auth: Awaited<ReturnType<typeof authStatus>>;
+    try {
+      auth = await authStatus();
+    } catch (err) {
+      return this.renderErrorScreen(err);
+    }
+    if (auth !== "signedIn") {
+      return this.renderLoginScreen(iconUri, auth === "expired");
     }
 
     // Logged in — merge list + status + detail for rich cards
     try {
       const [projects, status] = await Promise.all([
-        listProjects().catch(() => [] as ListProject[]),
-        statusAll().catch(() => ({ projects: [] as StatusProject[] })),
+        getProjects(),
+        getStatusAll().catch(() => ({ projects: [] as StatusProject[] })),
       ]);
 
       // Merge status info into project list
@@ -172,10 +278,12 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
 
       // Fetch details in parallel for expanded data
       const detailResults = await Promise.all(
-        projects.map((p) => statusDetail(p.name).catch(() => null))
+        projects.map((p) => getStatusDetail(p.name).catch(() => null))
       );
       const detailMap = new Map<string, StatusDetail>();
       detailResults.forEach((d) => { if (d) { detailMap.set(d.name, d); } });
+      rememberDirectories(detailResults);
+      const current = await boundProjectNames(projects);
 
       const views: ProjectView[] = projects.map((p) => {
         const s = statusMap.get(p.name);
@@ -188,20 +296,33 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           net: d?.resources?.net,
           uptime: s?.uptime || d?.uptime,
           local_url: d?.local_url,
+          directory: d?.directory,
           deploys: d?.deploys,
+          current: current.has(p.name),
         };
       });
 
-      return this.renderProjectsScreen(views);
-    } catch {
-      return this.renderProjectsScreen([]);
+      // Previews ride along inside their parent's card
+      const nested = views.filter((v) => isNestedPreview(v, projects));
+      const top = views.filter((v) => !nested.includes(v));
+      for (const v of top) {
+        v.previews = nested.filter((n) => n.preview_of === v.name);
+      }
+
+      // This workspace's projects first
+      top.sort((a, b) => Number(!!b.current) - Number(!!a.current));
+
+      return this.renderProjectsScreen(top);
+    } catch (err) {
+      // The CLI told us what's wrong — say so instead of an empty list
+      return err instanceof BsCliError ? this.renderErrorScreen(err) : this.renderProjectsScreen([]);
     }
   }
 
   // ── State 1: Install CLI ────────────────────────────────────────
 
   private renderInstallScreen(iconUri: string): string {
-    return this.wrap(/* html */ `
+    return /* html */ `
       <div class="screen-center">
         <div class="logo-area">
           <img class="logo-img" src="${iconUri}" alt="Build & Ship" />
@@ -229,13 +350,13 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           <a href="#" onclick="post('openUrl', 'https://buildandship.it')">buildandship.it</a>
         </div>
       </div>
-    `);
+    `;
   }
 
   // ── State 2: Sign In ────────────────────────────────────────────
 
-  private renderLoginScreen(iconUri: string): string {
-    return this.wrap(/* html */ `
+  private renderLoginScreen(iconUri: string, expired = false): string {
+    return /* html */ `
       <div class="screen-center">
         <div class="progress-steps">
           <div class="p-step done">
@@ -248,12 +369,14 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           </div>
         </div>
 
-        <h1 class="title-lg">One more thing.</h1>
-        <p class="subtitle">Sign in so we know who to congratulate<br>when your deploy goes live.</p>
+        <h1 class="title-lg">${expired ? "Welcome back." : "One more thing."}</h1>
+        <p class="subtitle">${expired
+          ? "Your session expired — tokens don't live forever.<br>Sign in again and pick up where you left off."
+          : "Sign in so we know who to congratulate<br>when your deploy goes live."}</p>
 
         <div class="auth-banner">
           <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor" opacity="0.5"><path d="M8 1a2 2 0 0 1 2 2v4H6V3a2 2 0 0 1 2-2zm3 6V3a3 3 0 0 0-6 0v4a2 2 0 0 0-2 2v5a2 2 0 0 0 2 2h6a2 2 0 0 0 2-2V9a2 2 0 0 0-2-2z"/></svg>
-          <span>Not signed in</span>
+          <span>${expired ? "Session expired" : "Not signed in"}</span>
         </div>
 
         <div class="onboard-card">
@@ -269,14 +392,42 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
           <a href="#" onclick="post('openUrl', 'https://buildandship.it')">buildandship.it</a>
         </div>
       </div>
-    `);
+    `;
+  }
+
+  // ── State 2b: CLI error ─────────────────────────────────────────
+
+  /** The CLI failed — say what broke and offer the matching fix (see errors.ts) */
+  private renderErrorScreen(err: unknown): string {
+    const help = errorHelp(err);
+    const message = err instanceof Error ? err.message : String(err);
+    const buttons = help.actions.map((a, i) => /* html */ `
+          <button class="btn ${i === 0 ? "btn-primary" : "btn-ghost"} full" onclick="post('recover', { action: '${this.escapeHtml(a.command)}' })">${this.escapeHtml(a.label)}</button>`
+    ).join("");
+
+    return /* html */ `
+      <div class="screen-center">
+        <div class="hero-icon">&#x26A0;&#xFE0F;</div>
+
+        <h1 class="title-lg">${this.escapeHtml(help.title)}</h1>
+        <p class="subtitle">${this.escapeHtml(help.hint)}</p>
+
+        <div class="onboard-card">
+          <p class="card-desc"><code>${this.escapeHtml(message)}</code></p>${buttons}
+        </div>
+
+        <div class="footer-link">
+          <a href="#" onclick="post('openUrl', 'https://buildandship.it')">buildandship.it</a>
+        </div>
+      </div>
+    `;
   }
 
   // ── State 3: Projects ───────────────────────────────────────────
 
   private renderProjectsScreen(projects: ProjectView[]): string {
     if (projects.length === 0) {
-      return this.wrap(/* html */ `
+      return /* html */ `
         <div class="screen-center">
           <div class="hero-icon">
             <span class="rocket-float">&#x1F680;</span>
@@ -290,13 +441,15 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
             <button class="btn btn-deploy full" onclick="post('deploy')">&#x1F680; Ship It</button>
           </div>
 
+          ${this.renderDeployBanner()}
+
           <div class="footer-link">
             <a href="#" onclick="post('openUrl', 'https://buildandship.it')">buildandship.it</a>
             <span class="sep">&middot;</span>
             <span class="tagline">No cloud bills. Just vibes.</span>
           </div>
         </div>
-      `);
+      `;
     }
 
     // Has projects — build collapsible cards
@@ -314,13 +467,14 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
 
       // ── Collapsed view (always visible) ───────────
       let card = /* html */ `
-        <div class="project-card ${statusClass}" data-project="${eName}" style="animation-delay: ${idx * 0.04}s">
+        <div class="project-card ${statusClass}${p.current ? " current" : ""}" data-project="${eName}" style="animation-delay: ${idx * 0.04}s">
           <div class="card-collapsed" onclick="toggleCard(this.parentElement)">
             <div class="card-left">
               <span class="indicator ${statusClass}"></span>
               <div class="card-info">
                 <span class="card-name">${eName}</span>
                 <span class="card-status ${statusClass}">${statusLabel}</span>
+                ${p.current ? `<span class="card-current" title="Bound to this workspace">this workspace</span>` : ""}
               </div>
             </div>
             <svg class="chevron" width="12" height="12" viewBox="0 0 16 16" fill="currentColor"><path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708l-3 3a.5.5 0 0 1-.708 0l-3-3a.5.5 0 0 1 0-.708z"/></svg>
@@ -429,6 +583,11 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
         card += `<div class="chips-row">${badges.join("")}</div>`;
       }
 
+      // Branch previews (the CLI must support them)
+      if (hasCapability("previews") && (p.previews?.length || p.current)) {
+        card += this.renderPreviews(p);
+      }
+
       // Action buttons
       card += `<div class="actions-bar">`;
       if (isLive) {
@@ -465,28 +624,31 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
             <span class="log-title">
               <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor" opacity="0.5"><path d="M14 1a1 1 0 0 1 1 1v12a1 1 0 0 1-1 1H2a1 1 0 0 1-1-1V2a1 1 0 0 1 1-1h12zM2 0a2 2 0 0 0-2 2v12a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V2a2 2 0 0 0-2-2H2z"/><path d="M5 4h6v1H5V4zm0 3h6v1H5V7zm0 3h4v1H5v-1z"/></svg>
               Logs
+              <span class="log-live-dot" title="Live"></span>
             </span>
             <div class="log-actions">
+              <button class="log-action-btn" data-log-pause onclick="event.stopPropagation(); toggleLogPause('${eName}')" title="Pause">
+                <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor"><path d="M5.5 3.5A1.5 1.5 0 0 1 7 5v6a1.5 1.5 0 0 1-3 0V5a1.5 1.5 0 0 1 1.5-1.5zm5 0A1.5 1.5 0 0 1 12 5v6a1.5 1.5 0 0 1-3 0V5a1.5 1.5 0 0 1 1.5-1.5z"/></svg>
+                <span class="log-pending"></span>
+              </button>
+              <button class="log-action-btn" data-log-lock onclick="event.stopPropagation(); toggleLogScrollLock('${eName}')" title="Auto-scroll on — click to lock">
+                <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor"><path d="M8 1a.5.5 0 0 1 .5.5v11.793l3.146-3.147a.5.5 0 0 1 .708.708l-4 4a.5.5 0 0 1-.708 0l-4-4a.5.5 0 0 1 .708-.708L7.5 13.293V1.5A.5.5 0 0 1 8 1z"/></svg>
+              </button>
               <button class="log-action-btn" onclick="event.stopPropagation(); copyLogs('${eName}')" title="Copy logs">
                 <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor"><path d="M4 1.5H3a2 2 0 0 0-2 2V14a2 2 0 0 0 2 2h10a2 2 0 0 0 2-2V3.5a2 2 0 0 0-2-2h-1v1h1a1 1 0 0 1 1 1V14a1 1 0 0 1-1 1H3a1 1 0 0 1-1-1V3.5a1 1 0 0 1 1-1h1v-1z"/><path d="M9.5 1a.5.5 0 0 1 .5.5v1a.5.5 0 0 1-.5.5h-3a.5.5 0 0 1-.5-.5v-1a.5.5 0 0 1 .5-.5h3zm-3-1A1.5 1.5 0 0 0 5 1.5v1A1.5 1.5 0 0 0 6.5 4h3A1.5 1.5 0 0 0 11 2.5v-1A1.5 1.5 0 0 0 9.5 0h-3z"/></svg>
               </button>
-              <button class="log-action-btn" onclick="event.stopPropagation(); document.getElementById('logs-${eName}').classList.remove('open')" title="Close logs">
+              <button class="log-action-btn" onclick="event.stopPropagation(); closeLogs('${eName}')" title="Close logs">
                 <svg width="10" height="10" viewBox="0 0 16 16" fill="currentColor"><path d="M4.646 4.646a.5.5 0 0 1 .708 0L8 7.293l2.646-2.647a.5.5 0 0 1 .708.708L8.707 8l2.647 2.646a.5.5 0 0 1-.708.708L8 8.707l-2.646 2.647a.5.5 0 0 1-.708-.708L7.293 8 4.646 5.354a.5.5 0 0 1 0-.708z"/></svg>
               </button>
             </div>
           </div>
-          <pre class="log-output"><span class="log-placeholder">Hit "Logs" to see what your app is thinking...</span></pre>
+          ${logToolsHtml(eName)}
+          <pre class="log-output" data-log-output><span class="log-placeholder">Hit "Logs" to see what your app is thinking...</span></pre>
         </div>`;
 
-      // Latest deploy (single metric)
+      // Deploy history
       if (p.deploys && p.deploys.length > 0) {
-        const latest = p.deploys[0];
-        const duration = latest.duration_ms ? `${(latest.duration_ms / 1000).toFixed(1)}s` : "\u2014";
-        card += /* html */ `
-          <div class="deploys-mini">
-            <span class="section-lbl">Ship Log</span>
-            <span class="ship-metric">${duration}</span>
-          </div>`;
+        card += this.renderDeployHistory(p);
       }
 
       // Danger zone
@@ -506,7 +668,7 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       return card;
     }).join("");
 
-    return this.wrap(/* html */ `
+    return /* html */ `
       <div class="top-bar">
         <div class="top-left">
           <span class="brand">Build & Ship</span>
@@ -524,6 +686,8 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
 
       <button class="btn btn-deploy full" onclick="post('deploy')">&#x1F680; Ship It</button>
 
+      ${this.renderDeployBanner()}
+
       <div class="projects-list">
         ${projectCards}
       </div>
@@ -536,7 +700,124 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
         <a href="#" onclick="post('openUrl', 'https://buildandship.it/support')">Support</a>
       </div>
       <div class="tagline">Your hardware. Your rules. Zero cloud bills.</div>
-    `);
+    `;
+  }
+
+  // ── Previews ────────────────────────────────────────────────────
+
+  /** One row per branch preview — URL, QR, promote, tear down */
+  private renderPreviews(p: ProjectView): string {
+    const eParent = this.escapeHtml(p.name);
+    const previews = p.previews ?? [];
+
+    const rows = previews.map((pv) => {
+      const ePreview = this.escapeHtml(pv.name);
+      const statusClass = pv.status === "live" ? "live" : pv.status === "failed" ? "failed" : "stopped";
+      const url = pv.public_url ?? "";
+      return /* html */ `
+        <div class="preview-row" data-project="${ePreview}">
+          <div class="preview-main">
+            <span class="indicator ${statusClass}"></span>
+            <span class="preview-branch" title="${ePreview}">${this.escapeHtml(pv.branch ?? pv.name)}</span>
+            ${url ? `
+            <a class="preview-url" href="#" onclick="event.stopPropagation(); post('openUrl', '${this.escapeHtml(url)}')">${this.escapeHtml(url.replace("https://", ""))}</a>
+            <button class="qr-btn" onclick="event.stopPropagation(); this.closest('.preview-row').querySelector('.qr-drawer').classList.toggle('open')" title="QR Code">
+              <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor"><path d="M0 .5A.5.5 0 0 1 .5 0h3a.5.5 0 0 1 0 1H1v2.5a.5.5 0 0 1-1 0v-3zm12 0a.5.5 0 0 1 .5-.5h3a.5.5 0 0 1 .5.5v3a.5.5 0 0 1-1 0V1h-2.5a.5.5 0 0 1-.5-.5zM.5 12a.5.5 0 0 1 .5.5V15h2.5a.5.5 0 0 1 0 1h-3a.5.5 0 0 1-.5-.5v-3a.5.5 0 0 1 .5-.5zm15 0a.5.5 0 0 1 .5.5v3a.5.5 0 0 1-.5.5h-3a.5.5 0 0 1 0-1H15v-2.5a.5.5 0 0 1 .5-.5z"/></svg>
+            </button>` : `<span class="card-status ${statusClass}">${this.escapeHtml(pv.status)}</span>`}
+          </div>
+          ${url ? `
+          <div class="qr-drawer">
+            <div class="qr-frame">
+              <img src="https://api.qrserver.com/v1/create-qr-code/?size=120x120&bgcolor=ffffff&color=000000&data=${encodeURIComponent(url)}" alt="QR" onerror="this.closest('.qr-drawer').style.display='none'" />
+            </div>
+            <span class="qr-caption">Show the team.</span>
+          </div>` : ""}
+          <div class="preview-actions">
+            <button class="act-btn" onclick="event.stopPropagation(); post('promotePreview', {project:'${ePreview}'})" title="Serve this build from ${eParent}">Promote</button>
+            <button class="act-btn act-warn" onclick="event.stopPropagation(); post('destroy', {project:'${ePreview}'})">Tear Down</button>
+          </div>
+        </div>`;
+    }).join("");
+
+    return /* html */ `
+      <div class="previews" onclick="event.stopPropagation()">
+        <div class="previews-head">
+          <span class="previews-title">Previews</span>
+          ${p.current ? `<a href="#" onclick="post('deployPreview')">Preview this branch</a>` : ""}
+          ${previews.length ? `<a href="#" onclick="post('cleanUpPreviews', {project:'${eParent}'})">Clean up</a>` : ""}
+        </div>
+        ${rows || `<p class="previews-empty">No previews. Ship a branch without touching production.</p>`}
+      </div>`;
+  }
+
+  // ── Deploy history ──────────────────────────────────────────────
+
+  /** Compact history list — click a row for the detail view */
+  private renderDeployHistory(p: ProjectView): string {
+    const deploys = p.deploys ?? [];
+    const shown = deploys.slice(0, 10);
+    const repo = p.auto_deploy?.repo ?? "";
+
+    const targets = hasCapability("rollback") ? rollbackTargets(deploys) : [];
+
+    const rows = shown.map((dep) => {
+      const canRollBack = targets.includes(dep);
+      const cls = dep.status === "live" || dep.status === "success" ? "ok" : dep.status === "failed" ? "fail" : "other";
+      const commit = dep.commit_sha
+        ? `<a class="commit-link" href="#" data-sha="${this.escapeHtml(dep.commit_sha)}" data-directory="${this.escapeHtml(p.directory ?? "")}" data-repo="${this.escapeHtml(repo)}" onclick="event.stopPropagation(); openCommit(this)">${this.escapeHtml(shortSha(dep.commit_sha))}</a>`
+        : "";
+
+      return /* html */ `
+        <div class="history-item ${cls}" onclick="event.stopPropagation(); this.classList.toggle('open')">
+          <div class="history-line">
+            <span class="history-dot"></span>
+            <span class="history-status">${this.escapeHtml(dep.status)}</span>
+            ${commit}
+            <span class="history-when">${this.escapeHtml(formatRelativeTime(dep.created_at))}</span>
+          </div>
+          <div class="history-detail">
+            <span>Duration</span><span>${formatDuration(dep.duration_ms)}</span>
+            <span>Branch</span><span>${this.escapeHtml(dep.branch ?? "\u2014")}</span>
+            <span>Deploy</span><span>${this.escapeHtml(dep.id)}</span>
+            ${dep.error ? `<span>Error</span><span class="history-error">${this.escapeHtml(dep.error)}</span>` : ""}
+            ${canRollBack ? `<span></span><button class="rollback-btn" data-project="${this.escapeHtml(p.name)}" data-deploy="${this.escapeHtml(dep.id)}" onclick="event.stopPropagation(); rollbackTo(this)">Roll back to this</button>` : ""}
+          </div>
+        </div>`;
+    }).join("");
+
+    const more = deploys.length > shown.length
+      ? `<a class="history-more" href="#" onclick="event.stopPropagation(); post('showPanel')">All ${deploys.length} deploys in Dashboard</a>`
+      : "";
+
+    return /* html */ `
+      <div class="deploys-mini">
+        <span class="section-lbl">Ship Log</span>
+        <span class="ship-metric">${formatDuration(deploys[0].duration_ms)}</span>
+        <div class="history-list">${rows}</div>
+        ${more}
+      </div>`;
+  }
+
+  // ── Deploy progress banner ──────────────────────────────────────
+
+  private renderDeployBanner(): string {
+    const progress = this.deployProgress;
+    const current = progress?.phase ? DEPLOY_PHASES.indexOf(progress.phase) : -1;
+    const steps = DEPLOY_PHASES.map((phase, i) => {
+      const state = i < current ? "done" : i === current ? "current" : "";
+      return `<span class="deploy-step ${state}" data-phase="${phase}">${phase}</span>`;
+    }).join("");
+    const title = progress ? `${progress.project}: ${progress.label}\u2026` : "";
+
+    return /* html */ `
+      <div class="deploy-banner ${progress ? "active" : ""}" id="deploy-banner" data-project="${this.escapeHtml(progress?.project ?? "")}">
+        <div class="deploy-banner-head">
+          <span class="deploy-spinner"></span>
+          <span class="deploy-banner-title" id="deploy-banner-title">${this.escapeHtml(title)}</span>
+          <button class="deploy-cancel" onclick="cancelBannerDeploy()" title="Cancel deploy">Cancel</button>
+        </div>
+        <div class="deploy-steps">${steps}</div>
+      </div>`;
   }
 
   // ── Helpers ─────────────────────────────────────────────────────
@@ -552,6 +833,7 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
 
   // ── HTML wrapper with shared styles ─────────────────────────────
 
+  /** The whole document — later refreshes only patch #root (see patchContent in logviewer.ts) */
   private wrap(body: string): string {
     return /* html */ `<!DOCTYPE html>
 <html lang="en">
@@ -573,6 +855,9 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       -webkit-font-smoothing: antialiased;
     }
 
+    /* Patched in place on refresh — layout as if it weren't there */
+    #root { display: contents; }
+
     /* ── Layout ──────────────────────────── */
 
     .screen-center {
@@ -790,6 +1075,91 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       color: var(--vscode-foreground);
     }
 
+    /* ── Deploy progress banner ───────────── */
+
+    .deploy-banner {
+      display: none;
+      flex-direction: column;
+      gap: 7px;
+      width: 100%;
+      padding: 9px 12px;
+      border-radius: 8px;
+      background: rgba(0, 120, 212, 0.06);
+      border: 1px solid rgba(0, 120, 212, 0.2);
+      animation: fadeIn 0.2s ease-out;
+    }
+
+    .deploy-banner.active { display: flex; }
+
+    .deploy-banner-head {
+      display: flex;
+      align-items: center;
+      gap: 7px;
+      min-width: 0;
+    }
+
+    .deploy-spinner {
+      width: 10px; height: 10px;
+      border-radius: 50%;
+      border: 2px solid rgba(0, 120, 212, 0.25);
+      border-top-color: #0078d4;
+      animation: spin 0.8s linear infinite;
+      flex-shrink: 0;
+    }
+
+    @keyframes spin { to { transform: rotate(360deg); } }
+
+    .deploy-banner-title {
+      flex: 1;
+      font-size: 11.5px;
+      font-weight: 600;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .deploy-cancel {
+      flex-shrink: 0;
+      padding: 2px 8px;
+      border: 1px solid rgba(248, 113, 113, 0.25);
+      border-radius: 5px;
+      background: transparent;
+      color: #f87171;
+      font-family: inherit;
+      font-size: 10px;
+      font-weight: 600;
+      cursor: pointer;
+      transition: all 0.15s;
+    }
+
+    .deploy-cancel:hover { background: rgba(248, 113, 113, 0.08); border-color: rgba(248, 113, 113, 0.4); }
+
+    .deploy-banner.cancelled { background: rgba(100, 116, 139, 0.06); border-color: rgba(100, 116, 139, 0.25); }
+    .deploy-banner.cancelled .deploy-spinner,
+    .deploy-banner.cancelled .deploy-cancel { display: none; }
+
+    .deploy-steps {
+      display: flex;
+      gap: 3px;
+    }
+
+    .deploy-step {
+      flex: 1;
+      font-size: 8.5px;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.4px;
+      text-align: center;
+      padding: 2px 0;
+      border-radius: 3px;
+      color: var(--vscode-descriptionForeground);
+      background: var(--vscode-badge-background);
+      opacity: 0.5;
+    }
+
+    .deploy-step.done { opacity: 1; background: rgba(74, 222, 128, 0.12); color: #4ade80; }
+    .deploy-step.current { opacity: 1; background: rgba(0, 120, 212, 0.18); color: var(--vscode-foreground); }
+
     /* ── Top bar ──────────────────────────── */
 
     .top-bar {
@@ -901,10 +1271,24 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       animation: fadeIn 0.3s ease-out both;
     }
 
+    .patched .project-card { animation: none; }
+
     .project-card:hover {
       border-color: var(--vscode-focusBorder);
     }
 
+    .project-card.current { box-shadow: 0 0 0 1px rgba(0, 120, 212, 0.35); }
+
+    .card-current {
+      font-size: 9px;
+      font-weight: 600;
+      padding: 1px 6px;
+      border-radius: 3px;
+      flex-shrink: 0;
+      background: rgba(0, 120, 212, 0.15);
+      color: var(--vscode-textLink-foreground);
+    }
+
     .project-card.live { border-left: 3px solid #4ade80; }
     .project-card.failed { border-left: 3px solid #f87171; }
     .project-card.stopped { border-left: 3px solid #64748b; }
@@ -1230,6 +1614,73 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
     .act-warn { color: #fb923c; border-color: rgba(251, 146, 60, 0.2); }
     .act-warn:hover { background: rgba(251, 146, 60, 0.08); color: #f97316; border-color: rgba(251, 146, 60, 0.35); }
 
+    /* ── Previews ────────────────────────── */
+
+    .previews {
+      padding: 6px 12px 8px;
+      border-top: 1px solid var(--vscode-widget-border);
+    }
+
+    .previews-head {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 4px;
+      font-size: 10px;
+    }
+
+    .previews-title {
+      flex: 1;
+      font-weight: 600;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .previews-head a { color: var(--vscode-textLink-foreground); text-decoration: none; }
+    .previews-head a:hover { text-decoration: underline; }
+
+    .previews-empty {
+      font-size: 10.5px;
+      color: var(--vscode-descriptionForeground);
+      opacity: 0.7;
+    }
+
+    .preview-row { padding: 4px 0; }
+    .preview-row + .preview-row { border-top: 1px dashed var(--vscode-widget-border); }
+
+    .preview-main {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      min-width: 0;
+      font-size: 11px;
+    }
+
+    .preview-branch {
+      font-family: var(--vscode-editor-font-family);
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+
+    .preview-url {
+      flex: 1;
+      min-width: 0;
+      color: var(--vscode-textLink-foreground);
+      text-decoration: none;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      font-size: 10.5px;
+    }
+
+    .preview-actions {
+      display: flex;
+      gap: 4px;
+      margin-top: 4px;
+    }
+
     .act-danger { color: #f87171; border-color: rgba(248, 113, 113, 0.2); }
     .act-danger:hover { background: rgba(248, 113, 113, 0.08); color: #ef4444; border-color: rgba(248, 113, 113, 0.35); }
 
@@ -1306,6 +1757,8 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       font-style: italic;
     }
 
+    .log-action-btn { gap: 2px; width: auto; min-width: 20px; padding: 0 3px; }
+${logViewerStyles()}
     .log-output::-webkit-scrollbar { width: 4px; }
     .log-output::-webkit-scrollbar-thumb {
       background: var(--vscode-scrollbarSlider-background);
@@ -1339,6 +1792,95 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       color: var(--vscode-foreground);
     }
 
+    .history-list {
+      display: flex;
+      flex-direction: column;
+      margin-top: 4px;
+    }
+
+    .history-item {
+      padding: 4px 0;
+      border-top: 1px solid var(--vscode-widget-border);
+      cursor: pointer;
+    }
+
+    .history-line {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      font-size: 10.5px;
+    }
+
+    .history-dot {
+      width: 5px; height: 5px;
+      border-radius: 50%;
+      flex-shrink: 0;
+    }
+
+    .history-item.ok .history-dot { background: #4ade80; }
+    .history-item.fail .history-dot { background: #f87171; }
+    .history-item.other .history-dot { background: #fbbf24; }
+
+    .history-status { font-weight: 600; }
+
+    .commit-link {
+      font-family: var(--vscode-editor-font-family), monospace;
+      font-size: 10px;
+      color: var(--vscode-textLink-foreground);
+      text-decoration: none;
+    }
+
+    .commit-link:hover { text-decoration: underline; }
+
+    .history-when {
+      margin-left: auto;
+      color: var(--vscode-descriptionForeground);
+      opacity: 0.7;
+    }
+
+    .history-detail {
+      display: none;
+      grid-template-columns: 56px 1fr;
+      gap: 2px 8px;
+      padding: 4px 0 2px 11px;
+      font-size: 10px;
+      color: var(--vscode-descriptionForeground);
+    }
+
+    .history-item.open .history-detail { display: grid; }
+
+    .history-error {
+      color: #f87171;
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+
+    .rollback-btn {
+      justify-self: start;
+      margin-top: 3px;
+      padding: 3px 8px;
+      border: 1px solid var(--vscode-widget-border);
+      border-radius: 5px;
+      background: transparent;
+      color: var(--vscode-foreground);
+      font-family: inherit;
+      font-size: 10px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .rollback-btn:hover {
+      background: var(--vscode-list-hoverBackground);
+      border-color: var(--vscode-focusBorder);
+    }
+
+    .history-more {
+      font-size: 10px;
+      color: var(--vscode-textLink-foreground);
+      text-decoration: none;
+      padding-top: 4px;
+    }
+
     /* ── Danger zone ─────────────────────── */
 
     .danger-zone {
@@ -1597,7 +2139,7 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
   </style>
 </head>
 <body>
-  ${body}
+  <div id="root">${body}</div>
   <script>
     const vscode = acquireVsCodeApi();
 
@@ -1611,29 +2153,61 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
       }
     }
 
+${logViewerScript({ idPrefix: "logs-", lineCap: getLogLineCap(), cardSelector: ".project-card" })}
+
     function toggleCard(card) {
       card.classList.toggle('expanded');
+      // Collapsing a card stops its log stream
+      if (!card.classList.contains('expanded')) {
+        closeLogs(card.dataset.project);
+      }
     }
 
     function toggleLogs(project) {
       const viewer = document.getElementById('logs-' + project);
       if (!viewer) return;
       if (viewer.classList.contains('open')) {
-        // Already open — close it
-        viewer.classList.remove('open');
+        // Already open — close it and stop following
+        closeLogs(project);
       } else {
-        // Closed — fetch and open
+        // Closed — start following
         post('viewLogs', { project: project });
       }
     }
 
+    function openCommit(link) {
+      post('openCommit', { sha: link.dataset.sha, directory: link.dataset.directory, repo: link.dataset.repo });
+    }
+
+    function rollbackTo(btn) {
+      post('rollback', { project: btn.dataset.project, deployId: btn.dataset.deploy });
+    }
+
     function copyLogs(project) {
-      const viewer = document.getElementById('logs-' + project);
-      if (!viewer) return;
-      const output = viewer.querySelector('.log-output');
-      if (!output) return;
-      const text = output.textContent || '';
-      post('copyLogs', { text: text });
+      post('copyLogs', { text: logText(project) });
+    }
+
+    // ── Deploy progress banner ───────────────────
+    const DEPLOY_PHASES = ${JSON.stringify(DEPLOY_PHASES)};
+
+    // The banner follows one deploy at a time — Cancel stops that one
+    function cancelBannerDeploy() {
+      const banner = document.getElementById('deploy-banner');
+      post('cancelDeploy', { project: banner ? banner.dataset.project : '' });
+    }
+
+    function setDeployProgress(project, phase, label) {
+      const banner = document.getElementById('deploy-banner');
+      if (!banner) return;
+      banner.dataset.project = project;
+      banner.classList.remove('cancelled');
+      banner.classList.add('active');
+      document.getElementById('deploy-banner-title').textContent = project + ': ' + label + '\u2026';
+      const current = phase ? DEPLOY_PHASES.indexOf(phase) : -1;
+      banner.querySelectorAll('.deploy-step').forEach((step, i) => {
+        step.classList.toggle('done', i < current);
+        step.classList.toggle('current', i === current);
+      });
     }
 
     // ── Confetti engine ──────────────────────────
@@ -1749,23 +2323,35 @@ export class WelcomeViewProvider implements vscode.WebviewViewProvider {
     window.addEventListener('message', (event) => {
       const msg = event.data;
 
-      // Log data for inline viewer
-      if (msg.command === 'logsData' && msg.project) {
-        const viewer = document.getElementById('logs-' + msg.project);
-        if (viewer) {
-          viewer.classList.add('open');
-          const output = viewer.querySelector('.log-output');
-          if (output) {
-            const escaped = msg.logs
-              .replace(/&/g, '&amp;')
-              .replace(/</g, '&lt;')
-              .replace(/>/g, '&gt;');
-            output.innerHTML = escaped || '<span class="log-placeholder">No logs available</span>';
-            output.scrollTop = output.scrollHeight;
-          }
+      // Streamed log lines for the inline viewer
+      if (handleLogMessage(msg)) {
+        return;
+      }
+
+      // Fresh markup after a refresh
+      if (msg.command === 'render') {
+        patchContent(document.getElementById('root'), msg.html);
+      }
+
+      // Deploy phase changes
+      if (msg.command === 'deployProgress') {
+        setDeployProgress(msg.project, msg.phase, msg.label);
+      }
+
+      if (msg.command === 'deployCancelled') {
+        const banner = document.getElementById('deploy-banner');
+        if (banner) {
+          banner.classList.add('cancelled');
+          document.getElementById('deploy-banner-title').textContent = msg.project + ': deploy cancelled';
+          setTimeout(() => banner.classList.remove('active', 'cancelled'), 4000);
         }
       }
 
+      if (msg.command === 'deployDone') {
+        const banner = document.getElementById('deploy-banner');
+        if (banner) banner.classList.remove('active');
+      }
+
       // Deploy celebration!
       if (msg.command === 'celebrate' && msg.url) {
         showCelebration(msg.project || 'Your project', msg.url);
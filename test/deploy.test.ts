@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import type { Deploy } from "../src/cli.js";
+import { rollbackTargets } from "../src/deploy.js";
+
+function deploys(...statuses: string[]): Deploy[] {
+  return statuses.map((status, i) => ({ id: `d${i}`, status, created_at: new Date(2026, 0, 10 - i).toISOString() }));
+}
+
+const ids = (list: Deploy[]) => list.map((d) => d.id);
+
+describe("rollbackTargets", () => {
+  it("offers the successful deploys older than the live one", () => {
+    expect(ids(rollbackTargets(deploys("live", "success", "failed", "success")))).toEqual(["d1", "d3"]);
+  });
+
+  it("skips a failed latest deploy — the one before it is still serving", () => {
+    expect(ids(rollbackTargets(deploys("failed", "live", "success")))).toEqual(["d2"]);
+  });
+
+  it("doesn't take an in-progress or queued deploy for the live one", () => {
+    expect(ids(rollbackTargets(deploys("building", "queued", "live", "success")))).toEqual(["d3"]);
+  });
+
+  it("offers nothing without a live deploy", () => {
+    expect(rollbackTargets(deploys("failed", "building"))).toEqual([]);
+    expect(rollbackTargets([])).toEqual([]);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { HOSTNAME } from "../src/domains.js";
+
+describe("HOSTNAME", () => {
+  it.each([
+    "example.com",
+    "app.example.com",
+    "my-app.eu.example.co.uk",
+    "APP.Example.COM",
+    "xn--bcher-kva.example",
+    `${"a".repeat(63)}.com`,
+  ])("accepts %s", (host) => {
+    expect(HOSTNAME.test(host)).toBe(true);
+  });
+
+  it.each([
+    "",
+    "localhost",
+    "example",
+    "-app.example.com",
+    "app-.example.com",
+    "app..example.com",
+    "app.example.com.",
+    "app_1.example.com",
+    "https://app.example.com",
+    "app.example.com/path",
+    "app.example.123",
+    `${"a".repeat(64)}.com`,
+    `${"a.".repeat(126)}com`,
+  ])("rejects %s", (host) => {
+    expect(HOSTNAME.test(host)).toBe(false);
+  });
+});
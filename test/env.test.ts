@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { parseDotEnv } from "../src/env.js";
+import { redact } from "../src/cli.js";
+import { BsCliError, NotAuthenticatedError } from "../src/errors.js";
+
+describe("parseDotEnv", () => {
+  it("reads plain assignments, skipping comments and blank lines", () => {
+    expect(parseDotEnv("# config\nPORT=3000\n\nHOST = localhost\n")).toEqual({ PORT: "3000", HOST: "localhost" });
+  });
+
+  it("accepts an export prefix", () => {
+    expect(parseDotEnv("export NODE_ENV=production")).toEqual({ NODE_ENV: "production" });
+  });
+
+  it("drops inline comments after unquoted values only", () => {
+    expect(parseDotEnv("A=1 # one\nB=\"2 # two\"\nC='3 # three'")).toEqual({ A: "1", B: "2 # two", C: "3 # three" });
+  });
+
+  it("expands escapes in double quotes and keeps single quotes literal", () => {
+    expect(parseDotEnv("A=\"line1\\nline2\\t\\\"q\\\"\"\nB='raw\\n'")).toEqual({ A: "line1\nline2\t\"q\"", B: "raw\\n" });
+  });
+
+  it("joins quoted values that span lines", () => {
+    expect(parseDotEnv("KEY=\"-----BEGIN-----\nabc\n-----END-----\"\nNEXT=1")).toEqual({
+      KEY: "-----BEGIN-----\nabc\n-----END-----",
+      NEXT: "1",
+    });
+  });
+
+  it("handles CRLF line endings", () => {
+    expect(parseDotEnv("A=1\r\nB=2\r\n")).toEqual({ A: "1", B: "2" });
+  });
+
+  it("passes dotted and dashed names through for importDotEnv to reject", () => {
+    expect(Object.keys(parseDotEnv("spring.profile=dev\nmy-key=1"))).toEqual(["spring.profile", "my-key"]);
+  });
+});
+
+describe("redact", () => {
+  const details = { command: "bs env set app --stdin", exitCode: 1, stderr: "rejected value hunter2" };
+
+  it("masks every value in the message and stack", () => {
+    const err = redact(new Error("bad value hunter2 (and s3cret)"), ["hunter2", "s3cret"]);
+    expect(err.message).toBe("bad value •••• (and ••••)");
+    expect(err.stack).not.toContain("hunter2");
+  });
+
+  it("keeps the error's class and drops stderr", () => {
+    const err = redact(new NotAuthenticatedError("bs env set: hunter2 not logged in", details), ["hunter2"]);
+    expect(err).toBeInstanceOf(NotAuthenticatedError);
+    expect(err).toBeInstanceOf(BsCliError);
+    expect(err.message).toBe("bs env set: •••• not logged in");
+    expect(err.stderr).toBe("");
+    expect(err.command).toBe(details.command);
+  });
+
+  it("ignores empty values", () => {
+    expect(redact(new Error("nothing secret"), [""]).message).toBe("nothing secret");
+  });
+});
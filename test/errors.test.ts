@@ -0,0 +1,93 @@
+import type { ExecFileException } from "child_process";
+import { describe, expect, it } from "vitest";
+import {
+  BsCliError, CliNotInstalledError, CliTimeoutError, DockerNotRunningError, ERROR_HELP, NotAuthenticatedError,
+  ProjectNotFoundError, RECOVERY_COMMANDS, TokenExpiredError, errorHelp, fromDaemonError, toCliError,
+} from "../src/errors.js";
+
+function execError(fields: Partial<ExecFileException>): ExecFileException {
+  return Object.assign(new Error("Command failed"), fields);
+}
+
+describe("toCliError", () => {
+  const args = ["status", "my-app", "--json"];
+
+  it("reports a missing binary as not installed", () => {
+    const err = toCliError("bs", args, execError({ code: "ENOENT" as unknown as number }), "", 15000);
+    expect(err).toBeInstanceOf(CliNotInstalledError);
+    expect(err.kind).toBe("notInstalled");
+    expect(err.exitCode).toBeNull();
+  });
+
+  it("reports a call killed by its time limit as a timeout", () => {
+    const err = toCliError("bs", args, execError({ killed: true, signal: "SIGTERM" }), "", 15000);
+    expect(err).toBeInstanceOf(CliTimeoutError);
+    expect(err.message).toBe("bs status my-app --json: timed out after 15s");
+    expect((err as CliTimeoutError).timeoutMs).toBe(15000);
+  });
+
+  it("keeps the command, exit code and stderr", () => {
+    const err = toCliError("/usr/local/bin/bs", args, execError({ code: 2 }), "  something broke\n", 15000);
+    expect(err.constructor).toBe(BsCliError);
+    expect(err.kind).toBe("unknown");
+    expect(err.command).toBe("/usr/local/bin/bs status my-app --json");
+    expect(err.exitCode).toBe(2);
+    expect(err.stderr).toBe("something broke");
+    expect(err.message).toBe("bs status my-app --json: something broke");
+  });
+
+  it.each([
+    ["Error: token has expired, run bs login", TokenExpiredError],
+    ["Please re-authenticate", TokenExpiredError],
+    ["Error: not logged in. Run `bs login`", NotAuthenticatedError],
+    ["HTTP 401 Unauthorized", NotAuthenticatedError],
+    ["Cannot connect to the Docker daemon at unix:///var/run/docker.sock", DockerNotRunningError],
+    ["Error: project my-app not found", ProjectNotFoundError],
+    ["no such project: my-app", ProjectNotFoundError],
+  ])("classifies %j", (stderr, type) => {
+    const err = toCliError("bs", args, execError({ code: 1 }), stderr, 15000);
+    expect(err).toBeInstanceOf(type);
+    expect(err.name).toBe(type.name);
+  });
+
+  it("tells an expired session from a missing one", () => {
+    const err = toCliError("bs", args, execError({ code: 1 }), "session expired", 15000);
+    expect(err).toBeInstanceOf(NotAuthenticatedError);
+    expect(err.kind).toBe("tokenExpired");
+  });
+});
+
+describe("fromDaemonError", () => {
+  it("classifies like execFile failures", () => {
+    const err = fromDaemonError("bs serve --stdio (status)", "bs status: not signed in", 1, "not signed in\n");
+    expect(err).toBeInstanceOf(NotAuthenticatedError);
+    expect(err.stderr).toBe("not signed in");
+  });
+
+  it("falls back to the message when there's no stderr", () => {
+    const err = fromDaemonError("bs serve --stdio (deploy)", "Docker daemon is not running", null, "");
+    expect(err).toBeInstanceOf(DockerNotRunningError);
+    expect(err.stderr).toBe("Docker daemon is not running");
+  });
+});
+
+describe("errorHelp", () => {
+  it("matches the error's kind", () => {
+    const err = new TokenExpiredError("expired", { command: "bs list", exitCode: 1, stderr: "" });
+    expect(errorHelp(err)).toBe(ERROR_HELP.tokenExpired);
+  });
+
+  it("treats anything else as unknown", () => {
+    expect(errorHelp(new Error("boom"))).toBe(ERROR_HELP.unknown);
+    expect(errorHelp("boom")).toBe(ERROR_HELP.unknown);
+  });
+
+  it("only offers commands the webviews may run", () => {
+    for (const help of Object.values(ERROR_HELP)) {
+      for (const action of help.actions) {
+        expect(RECOVERY_COMMANDS.has(action.command)).toBe(true);
+        expect(action.command).toMatch(/^buildandship\./);
+      }
+    }
+  });
+});
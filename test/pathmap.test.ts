@@ -0,0 +1,40 @@
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import { expandLocal, relativeTo } from "../src/pathmap.js";
+
+describe("relativeTo", () => {
+  it("strips the container prefix", () => {
+    expect(relativeTo("/app", "/app/src/routes/user.ts")).toBe("src/routes/user.ts");
+    expect(relativeTo("/app/", "/app/main.py")).toBe("main.py");
+  });
+
+  it("matches the prefix itself", () => {
+    expect(relativeTo("/app", "/app")).toBe("");
+  });
+
+  it("rejects paths outside the prefix, including lookalikes", () => {
+    expect(relativeTo("/app", "/usr/lib/node.js")).toBeUndefined();
+    expect(relativeTo("/app", "/application/index.js")).toBeUndefined();
+  });
+});
+
+describe("expandLocal", () => {
+  const root = path.resolve("/work/my-app");
+
+  it("expands ${workspaceFolder} to the bound folder", () => {
+    expect(expandLocal("${workspaceFolder}/server", root)).toBe(`${root}/server`);
+  });
+
+  it("resolves relative paths against the bound folder", () => {
+    expect(expandLocal("server", root)).toBe(path.join(root, "server"));
+  });
+
+  it("keeps absolute paths", () => {
+    expect(expandLocal("/srv/code", root)).toBe("/srv/code");
+  });
+
+  it("gives up on relative paths without a folder", () => {
+    expect(expandLocal("server", undefined)).toBeUndefined();
+    expect(expandLocal("${workspaceFolder}/server", undefined)).toBeUndefined();
+  });
+});
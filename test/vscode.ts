@@ -0,0 +1,45 @@
+/**
+ * Just enough of the `vscode` module for the extension's modules to load
+ * under vitest (see vitest.config.mjs). Tests cover the pure helpers;
+ * anything that talks to the editor isn't exercised here.
+ */
+
+export class EventEmitter<T> {
+  private listeners: ((e: T) => void)[] = [];
+
+  readonly event = (listener: (e: T) => void) => {
+    this.listeners.push(listener);
+    return { dispose: () => { this.listeners = this.listeners.filter((l) => l !== listener); } };
+  };
+
+  fire(e: T): void {
+    this.listeners.forEach((l) => l(e));
+  }
+
+  dispose(): void {
+    this.listeners = [];
+  }
+}
+
+export class Uri {
+  private constructor(readonly fsPath: string) {}
+
+  static file(fsPath: string): Uri {
+    return new Uri(fsPath);
+  }
+
+  toString(): string {
+    return `file://${this.fsPath}`;
+  }
+}
+
+export const workspace = {
+  workspaceFolders: undefined as { name: string; uri: Uri }[] | undefined,
+  getConfiguration: () => ({
+    get: <T>(_key: string, fallback?: T) => fallback,
+  }),
+  getWorkspaceFolder: (_uri: Uri) => undefined,
+};
+
+export const window = {};
+export const commands = {};
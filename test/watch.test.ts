@@ -0,0 +1,67 @@
+import { execFileSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ignoredPaths } from "../src/git.js";
+import { isWatchable } from "../src/watch.js";
+
+describe("isWatchable", () => {
+  const folder = path.resolve("/work/my-app");
+  const at = (rel: string) => path.join(folder, rel);
+
+  it("takes files inside the folder", () => {
+    expect(isWatchable(folder, at("src/index.ts"))).toBe(true);
+    expect(isWatchable(folder, at(".env"))).toBe(true);
+  });
+
+  it("skips .git and node_modules at any depth", () => {
+    expect(isWatchable(folder, at(".git/refs/heads/main"))).toBe(false);
+    expect(isWatchable(folder, at("node_modules/left-pad/index.js"))).toBe(false);
+    expect(isWatchable(folder, at("packages/web/node_modules/x.js"))).toBe(false);
+  });
+
+  it("keeps names that merely contain them", () => {
+    expect(isWatchable(folder, at("src/node_modules_helper.ts"))).toBe(true);
+    expect(isWatchable(folder, at(".github/workflows/ci.yml"))).toBe(true);
+  });
+
+  it("skips the folder itself and anything outside it", () => {
+    expect(isWatchable(folder, folder)).toBe(false);
+    expect(isWatchable(folder, path.resolve("/work/other/file.ts"))).toBe(false);
+    expect(isWatchable(folder, path.resolve("/work/my-app-2/file.ts"))).toBe(false);
+  });
+});
+
+describe("ignoredPaths", () => {
+  let repo: string;
+
+  beforeAll(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), "bs-watch-"));
+    execFileSync("git", ["init", "-q"], { cwd: repo });
+    fs.writeFileSync(path.join(repo, ".gitignore"), "dist/\n*.log\n");
+  });
+
+  afterAll(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it("returns the paths .gitignore excludes", async () => {
+    const paths = ["dist/bundle.js", "debug.log", "src/index.ts"].map((p) => path.join(repo, p));
+    const ignored = await ignoredPaths(repo, paths);
+    expect([...ignored].sort()).toEqual([path.join(repo, "debug.log"), path.join(repo, "dist/bundle.js")]);
+  });
+
+  it("is empty when nothing is ignored", async () => {
+    expect((await ignoredPaths(repo, [path.join(repo, "src/app.ts")])).size).toBe(0);
+  });
+
+  it("is empty outside a repository", async () => {
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), "bs-plain-"));
+    try {
+      expect((await ignoredPaths(plain, [path.join(plain, "debug.log")])).size).toBe(0);
+    } finally {
+      fs.rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
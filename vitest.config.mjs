@@ -0,0 +1,12 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // The real module only exists inside the extension host
+    alias: { vscode: fileURLToPath(new URL("./test/vscode.ts", import.meta.url)) },
+  },
+  test: {
+    include: ["test/**/*.test.ts"],
+  },
+});